@@ -0,0 +1,163 @@
+#!/usr/bin/env node
+/*
+ * Copyright © 2019 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Command line client for the JIRA cache admin API exposed by jiraCacheProcessor
+ */
+
+import * as http from "http";
+import * as https from "https";
+import {
+    parse as parseUrl,
+    URL,
+} from "url";
+
+const Usage = `Usage: jira-cache [--url <sdm url>] [--api-key <api key>] <command>
+
+Commands:
+  stats                       Show cache stats
+  keys [prefix]               List keys, optionally those starting with prefix
+  get <key>                   Show an entry and its remaining ttl
+  purge --key <key>           Purge a single entry
+  purge --prefix <prefix>     Purge every entry whose key starts with prefix
+  purge --tag <tag>           Purge every entry with a tag, ie issue:10001
+  purge --all                 Purge every entry
+  reset-stats                 Reset hit and miss counts
+
+The url defaults to $JIRA_CACHE_URL or http://localhost:2866, the API key to $ATOMIST_API_KEY.
+`;
+
+/**
+ * Invalid command line, reported with the usage
+ */
+class UsageError extends Error {}
+
+interface CliOptions {
+    url: string;
+    apiKey: string;
+    args: string[];
+    flags: {[flag: string]: string | boolean};
+}
+
+function parseArgs(argv: string[]): CliOptions {
+    const options: CliOptions = {
+        url: process.env.JIRA_CACHE_URL || "http://localhost:2866",
+        apiKey: process.env.ATOMIST_API_KEY,
+        args: [],
+        flags: {},
+    };
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (arg === "--url") {
+            options.url = argv[++i];
+        } else if (arg === "--api-key") {
+            options.apiKey = argv[++i];
+        } else if (arg === "--all" || arg === "--help") {
+            options.flags[arg.slice(2)] = true;
+        } else if (arg.startsWith("--")) {
+            options.flags[arg.slice(2)] = argv[++i];
+        } else {
+            options.args.push(arg);
+        }
+    }
+    return options;
+}
+
+async function request(options: CliOptions, method: "GET" | "POST", path: string, body?: any): Promise<any> {
+    const url = new URL(path, options.url.endsWith("/") ? options.url : `${options.url}/`);
+    const data = body !== undefined ? JSON.stringify(body) : undefined;
+    return new Promise((resolve, reject) => {
+        // request(url, options, callback) needs node 10.9, so put the parts of the url in the options
+        const {protocol, hostname, port, path: urlPath} = parseUrl(url.toString());
+        const req = (protocol === "https:" ? https : http).request({
+            protocol,
+            hostname,
+            port,
+            path: urlPath,
+            method,
+            headers: {
+                Authorization: `Bearer ${options.apiKey}`,
+                Accept: "application/json",
+                ...(data ? {"Content-Type": "application/json", "Content-Length": Buffer.byteLength(data)} : {}),
+            },
+            timeout: 30000,
+        }, res => {
+            let content = "";
+            res.setEncoding("utf8");
+            res.on("data", chunk => content += chunk);
+            res.on("end", () => {
+                let result: any;
+                try {
+                    result = JSON.parse(content);
+                } catch (e) {
+                    return reject(new Error(`Unexpected response (${res.statusCode}): ${content}`));
+                }
+                if (res.statusCode >= 400 || result.success === false) {
+                    return reject(new Error(`${res.statusCode}: ${result.error || content}`));
+                }
+                resolve(result);
+            });
+        });
+        req.on("timeout", () => req.destroy(new Error(`Timed out calling ${url}`)));
+        req.on("error", reject);
+        if (data) {
+            req.write(data);
+        }
+        req.end();
+    });
+}
+
+async function run(options: CliOptions): Promise<any> {
+    const [command, arg] = options.args;
+    switch (command) {
+        case "stats":
+            return request(options, "GET", "jiracache");
+        case "keys":
+            return (await request(options, "GET", `jiracache/keys${arg ? `?prefix=${encodeURIComponent(arg)}` : ""}`)).keys;
+        case "get":
+            if (!arg) {
+                throw new UsageError("Must supply the key to retrieve");
+            }
+            return request(options, "GET", `jiracache/entry?key=${encodeURIComponent(arg)}`);
+        case "purge": {
+            const selected = ["key", "prefix", "tag", "all"].filter(f => options.flags[f] !== undefined);
+            if (selected.length !== 1 || (selected[0] !== "all" && typeof options.flags[selected[0]] !== "string")) {
+                throw new UsageError("Must supply one of --key <key>, --prefix <prefix>, --tag <tag> or --all");
+            }
+            return request(options, "POST", "jiracache/purge", selected[0] === "all" ? {all: true} : {[selected[0]]: options.flags[selected[0]]});
+        }
+        case "reset-stats":
+            return request(options, "POST", "jiracache/stats/reset");
+        default:
+            throw new UsageError(command ? `Unknown command ${command}` : "Must supply a command");
+    }
+}
+
+const cliOptions = parseArgs(process.argv.slice(2));
+if (cliOptions.flags.help) {
+    process.stdout.write(Usage);
+} else if (!cliOptions.apiKey) {
+    process.stderr.write(`Must supply the SDM API key with --api-key or $ATOMIST_API_KEY\n\n${Usage}`);
+    process.exitCode = 1;
+} else {
+    run(cliOptions)
+        .then(result => process.stdout.write(`${JSON.stringify(result, undefined, 2)}\n`))
+        .catch(e => {
+            process.stderr.write(`${e.message}\n\n${e instanceof UsageError ? Usage : ""}`);
+            process.exitCode = 1;
+        });
+}
@@ -13,4 +13,22 @@
  * See the License for the specific language governing permissions and
  * limitations under the License.
  */
- export { jiraSupport } from "./lib/jira";
+export {
+    jiraSupport,
+    JiraSupportOptions,
+} from "./lib/jira";
+export { jiraOAuthAuthenticator } from "./lib/support/auth/oauth";
+export {
+    JiraCache,
+    JiraCacheStats,
+} from "./lib/support/cache/jiraCache";
+export {
+    JiraFileCache,
+    JiraFileCacheOptions,
+} from "./lib/support/cache/jiraFileCache";
+export {
+    JiraRedisCache,
+    JiraRedisCacheOptions,
+    JiraRedisClient,
+    JiraRedisPipeline,
+} from "./lib/support/cache/jiraRedisCache";
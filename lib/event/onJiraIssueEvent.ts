@@ -18,13 +18,14 @@ import {
     GraphQL,
     logger,
     OnEvent,
-    QueryNoCacheOptions,
     Success,
 } from "@atomist/automation-client";
 import { EventHandlerRegistration } from "@atomist/sdm";
-import { purgeCacheEntry } from "../support/cache/manage";
+import { invalidateCacheTags } from "../support/cache/manage";
+import { issueCacheTag } from "../support/cache/tags";
+import { notifyIssueUsers } from "../support/helpers/userNotifications";
+import { timeJiraEventHandler } from "../support/metrics";
 import { routeEvent } from "../support/routeEvent";
-import { buildSelfUrl } from "../support/shared";
 import * as types from "../typings/types";
 
 /**
@@ -32,47 +33,26 @@ import * as types from "../typings/types";
  *
  * This handler is called anytime there is an inbound JIRA Issue event and is responsible for:
  *
- * - Querying any previous events for this issue
  * - Purging any present cache entries for this Issue
- * - Sending this new event and all previous events to the routeEvent function for message building
- * and ultimately sending of chat messages.  Note, previous events are reprocessed so that any relevant
- * footer detail can be updated by re-writing the same message id with the new detail
+ * - Sending this event to the routeEvent function, which updates the card for this issue in each channel it is mapped to
+ * - Sending direct messages to the people involved in the issue who have opted in to them
  */
 function onJiraIssueEventHandler():
     OnEvent<types.OnJiraIssueEvent.Subscription> {
-    return async (e, ctx) => {
+    return async (e, ctx) => timeJiraEventHandler("onJiraIssueEvent", async () => {
         logger.info(`JIRA Event recieved, ${JSON.stringify(e.data.JiraIssue, undefined, 2)}`);
 
         /**
-         * Flush cache, if exists, for this Issue If there are quick subsequent changes on an issue we need
-         * to make sure we retrieve the latest data per event.  Once we've retrieved the data for THIS event
+         * Flush cache, if exists, for this Issue (details, transitions, comments and users) If there are quick subsequent changes on
+         * an issue we need to make sure we retrieve the latest data per event.  Once we've retrieved the data for THIS event
          * we'll use the cached version
          */
-        await purgeCacheEntry(buildSelfUrl(e.data.JiraIssue[0].issue.id) + "?expand=changelog");
+        await invalidateCacheTags(issueCacheTag(e.data.JiraIssue[0].issue.id), issueCacheTag(e.data.JiraIssue[0].issue.key));
 
-        /**
-         * Let's go collect all events for this Issue key and resubmit them to be processed
-         * This allows every reference to this issue to be up to date in the footer details
-         */
-        const events = await ctx.graphClient.query<types.GetJiraIssueByKey.Query, types.GetJiraIssueByKey.Variables>({
-            name: "GetJiraIssueByKey",
-            variables: { key: e.data.JiraIssue[0].issue.key },
-            options: QueryNoCacheOptions,
-        });
-
-        // Send historical events
-        logger.debug(`JIRA onJiraIssueEventHandler: Found ${events.JiraIssue.length} events`);
-        const routeEm = async () => {
-            for (const event of events.JiraIssue) {
-                await routeEvent(ctx, event, false);
-            }
-        };
-        await routeEm();
-
-        // Send this event
-        await routeEvent(ctx, e.data.JiraIssue[0], true);
+        await routeEvent(ctx, e.data.JiraIssue[0]);
+        await notifyIssueUsers(ctx, e.data.JiraIssue[0]);
         return Success;
-    };
+    });
 }
 
 export const onJiraIssueEvent: EventHandlerRegistration<types.OnJiraIssueEvent.Subscription> = {
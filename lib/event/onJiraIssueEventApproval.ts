@@ -15,7 +15,6 @@
  */
 
 import {
-    configurationValue,
     GitHubRepoRef,
     GraphQL,
     logger,
@@ -29,7 +28,11 @@ import {
     SdmGoalState,
     updateGoal,
 } from "@atomist/sdm";
-import { JiraConfig } from "../jira";
+import {
+    adfToText,
+    isAdfDocument,
+} from "../support/helpers/adf";
+import { findJiraInstanceByUrl } from "../support/instances";
 import { getJiraDetails } from "../support/jiraDataLookup";
 import * as jiraTypes from "../support/jiraDefs";
 import { buildSelfUrl } from "../support/shared";
@@ -50,7 +53,8 @@ export const onJiraIssueEventApprovalHandler = (goal: Goal): OnEvent<types.OnJir
         if (event.issue === null || event.issue.self === null) {
             return Success;
         }
-        const issue = await getJiraDetails<jiraTypes.Issue>(buildSelfUrl(event.issue.id) + "?expand=changelog", true, 30);
+        const jiraConfig = findJiraInstanceByUrl(event.issue.self);
+        const issue = await getJiraDetails<jiraTypes.Issue>(buildSelfUrl(event.issue.id, jiraConfig.name) + "?expand=changelog", true, 30);
 
         // Validate new state is approved (only process if this issue is a state change)
         if (
@@ -67,11 +71,12 @@ export const onJiraIssueEventApprovalHandler = (goal: Goal): OnEvent<types.OnJir
         let owner: string;
         let repo: string;
         let branch: string;
+        const description = isAdfDocument(issue.fields.description) ? adfToText(issue.fields.description) : issue.fields.description;
         try {
-            sha = /\[atomist:sha:(.*)\]/gm.exec(issue.fields.description)[1];
-            owner = /\[atomist:owner:(.*)\]/gm.exec(issue.fields.description)[1];
-            repo = /\[atomist:repo:(.*)\]/gm.exec(issue.fields.description)[1];
-            branch = /\[atomist:branch:(.*)\]/gm.exec(issue.fields.description)[1];
+            sha = /\[atomist:sha:(.*)\]/gm.exec(description)[1];
+            owner = /\[atomist:owner:(.*)\]/gm.exec(description)[1];
+            repo = /\[atomist:repo:(.*)\]/gm.exec(description)[1];
+            branch = /\[atomist:branch:(.*)\]/gm.exec(description)[1];
         } catch (e) {
             logger.info(`JIRA onJiraIssueEventApprovalHandler: No environment data found on issue, skipping event...`);
             return Success;
@@ -104,7 +109,6 @@ export const onJiraIssueEventApprovalHandler = (goal: Goal): OnEvent<types.OnJir
             );
 
             // Set goal state to successful
-            const jiraConfig = configurationValue<JiraConfig>("sdm.jira");
             await updateGoal(ctx, sdmGoal, {
                 state: SdmGoalState.success,
                 description: goal.successDescription,
@@ -15,30 +15,41 @@
  */
 
 import {
-    configurationValue,
     GraphQL,
     logger,
     OnEvent,
     Success,
 } from "@atomist/automation-client";
 import { EventHandlerRegistration } from "@atomist/sdm";
-import { JiraConfig } from "../jira";
-import { purgeCacheEntry } from "../support/cache/manage";
+import { invalidateCacheTags } from "../support/cache/manage";
+import {
+    ProjectsCacheTag,
+    UnmatchedUsersCacheTag,
+    userCacheTag,
+} from "../support/cache/tags";
 import * as types from "../typings/types";
 
 /**
  * This event handler is used to trigger cache purge events.  If the incoming event is a project change event (created, updated, or
- * deleted) this will cause the project endpoint to be purged from the cache.
+ * deleted) this will cause the cached project details to be purged from the cache.  If it is a user change event the email
+ * addresses cached for that user, and every address cached as not belonging to a user, are purged.
  */
 function onJiraIssueEventCacheHandler():
     OnEvent<types.OnJiraIssueEvent.Subscription> {
     return async e => {
         if (["project_created", "project_updated", "project_deleted"].includes(e.data.JiraIssue[0].webhookEvent)) {
-            const jiraConfig = configurationValue<JiraConfig>("sdm.jira");
             logger.info(`JIRA onJiraIssueEventCacheHandler Flushing JIRA project cache, configuration changes have been made`);
-            await purgeCacheEntry(`${jiraConfig.url}/rest/api/2/project`);
+            // Project events don't identify the project (or instance) they came from, purge everything about projects
+            await invalidateCacheTags(ProjectsCacheTag);
             logger.info(`JIRA onJiraIssueEventCacheHandler Successfully flushed project cache`);
         }
+
+        const event = e.data.JiraIssue[0];
+        if (["user_created", "user_updated", "user_deleted"].includes(event.webhookEvent)) {
+            logger.info(`JIRA onJiraIssueEventCacheHandler Flushing JIRA user identity cache, ${event.webhookEvent}`);
+            // A new or updated user may now have an address previously cached as unmatched
+            await invalidateCacheTags(UnmatchedUsersCacheTag, ...(event.user && event.user.key ? [userCacheTag(event.user.key)] : []));
+        }
         return Success;
     };
 }
@@ -14,7 +14,6 @@
  * limitations under the License.
  */
 
-import { configurationValue } from "@atomist/automation-client";
 import {
     GoalWithFulfillment,
     IndependentOfEnvironment,
@@ -22,9 +21,13 @@ import {
     slackErrorMessage,
 } from "@atomist/sdm";
 import { readSdmVersion } from "@atomist/sdm-core";
-import { JiraConfig } from "../jira";
-import { createJiraTicket } from "../support/commands/shared";
-import { convertEmailtoJiraUser } from "../support/shared";
+import { submitJiraTicket } from "../support/commands/shared";
+import { textToAdf } from "../support/helpers/adf";
+import { getJiraInstance } from "../support/instances";
+import {
+    buildJiraUserField,
+    convertEmailtoJiraUser,
+} from "../support/shared";
 
 /**
  * The JIRA Approval goal allows you to insert an approval goal into a goal set.  The workflow is that when the goal
@@ -88,10 +91,13 @@ export const JiraApproval = new GoalWithFulfillment({
         }));
 
         // TODO: Allow customization of the description and summary fields
+        // Approval issues are always created in the default JIRA instance
+        const jiraConfig = getJiraInstance();
+        const description = `[${gi.id.repo}] Requesting approval to deploy version ${newVersion} (${gi.id.sha})` +
+            `\n\n\n${enviornmentData.join("\n")}`;
         let data = {
             fields: {
-                description: `[${gi.id.repo}] Requesting approval to deploy version ${newVersion} (${gi.id.sha})` +
-                    `\n\n\n${enviornmentData.join("\n")}`,
+                description: jiraConfig.apiVersion === 3 ? textToAdf(description) : description,
                 project: {
                     key: project,
                 },
@@ -109,9 +115,7 @@ export const JiraApproval = new GoalWithFulfillment({
             data = {
                 ...data,
                 ...{
-                    reporter: {
-                        name: realRequester,
-                    },
+                    reporter: buildJiraUserField(realRequester),
                 },
             };
         }
@@ -122,15 +126,21 @@ export const JiraApproval = new GoalWithFulfillment({
         // [atomist:owner:]
         // [atomist:repo:]
         // [atomist:branch:]
-        const result = await createJiraTicket(data);
+        // If JIRA is unavailable the sub-task is queued, once created the approval is processed as normal (by onJiraIssueEventApproval)
+        const result = await submitJiraTicket(data, `Create JIRA approval request for ${issue} (${gi.id.repo} ${newVersion})`, gi);
+        if (result.queued) {
+            return {
+                state: SdmGoalState.in_process,
+                description: `${gi.goal.inProcessDescription} (approval request queued, JIRA is unavailable)`,
+            };
+        }
 
-        const jiraConfig = configurationValue<JiraConfig>("sdm.jira");
         return {
             state: SdmGoalState.in_process,
             description: gi.goal.inProcessDescription,
-            data: result.id,
+            data: result.result.id,
             externalUrls: [
-                {label: result.key, url: `${jiraConfig.url}/browse/${result.key}`},
+                {label: result.result.key, url: `${jiraConfig.url}/browse/${result.result.key}`},
             ],
         };
     },
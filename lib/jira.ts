@@ -15,8 +15,8 @@
  */
 
 import {
-    configurationValue,
     GraphQL,
+    HttpMethod,
     logger,
 } from "@atomist/automation-client";
 import {
@@ -26,57 +26,111 @@ import {
 } from "@atomist/sdm";
 import { onJiraIssueEvent } from "./event/onJiraIssueEvent";
 import { onJiraIssueEventCache } from "./event/onJiraIssueEventCache";
+import { JiraCacheConfig } from "./support/cache/config";
 import { JiraCache } from "./support/cache/jiraCache";
 import { JiraNodeCache } from "./support/cache/jiraNodeCache";
+import { JiraCacheWarmupListener } from "./support/cache/warmup";
+import {
+    flushJiraCacheReg,
+    getJiraCacheStatsReg,
+    purgeJiraCacheReg,
+} from "./support/commands/cache";
 import {
     getJiraChannelPrefsReg,
+    setJiraChannelFieldsReg,
+    setJiraChannelFilterReg,
     setJiraChannelPrefsReg,
 } from "./support/commands/configureChannelPrefs";
+import { setJiraUserPrefsReg } from "./support/commands/configureUserPrefs";
 import { createIssueReg } from "./support/commands/createIssue";
+import { jiraDoctorReg } from "./support/commands/doctor";
 import { getCurrentChannelMappingsReg } from "./support/commands/getCurrentChannelMappings";
+import {
+    linkJiraAccountReg,
+    refreshJiraIdentityReg,
+    unlinkJiraAccountReg,
+} from "./support/commands/linkAccount";
 import { mapComponentToChannelReg } from "./support/commands/mapComponent";
 import { mapProjectToChannelReg } from "./support/commands/mapProject";
+import { getJiraWriteQueueReg } from "./support/commands/queue";
 import { removeComponentMapFromChannelReg } from "./support/commands/removeComponentMap";
 import { removeProjectMapFromChannelReg } from "./support/commands/removeProjectMap";
+import {
+    JiraDoctorConfig,
+    JiraDoctorStartupListener,
+} from "./support/doctor";
 import {
     commentOnIssue,
     setIssueStatus,
 } from "./support/helpers/issueActions";
+import { getJiraInstance } from "./support/instances";
+import { JiraClientConfig } from "./support/jiraClient";
+import {
+    getJiraQueueConfig,
+    JiraQueueConfig,
+    processJiraWriteQueue,
+} from "./support/writeQueue";
+
+// Defined in its own module so the JIRA client can use it without importing the pack, and every command, in a cycle
+export { getJiraAuth } from "./support/auth/jiraAuth";
+
+/**
+ * Details of the request being authenticated.  Supplied to authenticators that need to sign the individual request (ie OAuth)
+ */
+export interface JiraRequestDetails {
+    /**
+     * Full URL of the request, including any query string
+     */
+    url: string;
+
+    /**
+     * HTTP method of the request
+     */
+    method: HttpMethod;
+
+    /**
+     * Name of the JIRA instance this request is for.  Populated by getJiraAuth.
+     */
+    instance?: string;
+}
 
 /**
  * This type represents the function used to retrieve credentials that are returned as an HTTP Authorization Header
  */
-export type JiraAuthenticator = (ctx?: SdmContext) => Promise<{Authorization: string}>;
+export type JiraAuthenticator = (ctx?: SdmContext, request?: JiraRequestDetails) => Promise<{Authorization: string}>;
 
 /**
- * The default Authenticator.  Always uses service account for authentication to the REST API.
+ * The default Authenticator.  Always uses the service account of the instance for authentication to the REST API.
  * @param ctx
+ * @param request
  */
-export const defaultJiraAuthenticator: JiraAuthenticator = async ctx => {
-    const jiraConfig = configurationValue<JiraConfig>("sdm.jira");
+export const defaultJiraAuthenticator: JiraAuthenticator = async (ctx, request) => {
+    const jiraConfig = getJiraInstance(request ? request.instance : undefined);
     return { Authorization: `Basic ${Buffer.from(jiraConfig.user + ":" + jiraConfig.password).toString("base64")}`};
 };
 
-export async function getJiraAuth(ctx?: SdmContext): Promise<{Authorization: string}> {
-    return configurationValue<JiraAuthenticator>("sdm.jiraAuthenticator")(ctx);
-}
-
 export const jiraSupport = (
     authenticator: JiraAuthenticator = defaultJiraAuthenticator,
     cache?: JiraCache,
+    options: JiraSupportOptions = {},
 ): ExtensionPack => {
     return {
         ...metadata(),
-        requiredConfigurationValues: [
-            "sdm.jira.url",
-        ],
         configure: sdm => {
+            const jiraConfig: JiraConfig = sdm.configuration.sdm.jira;
+            if (!jiraConfig || (!jiraConfig.url && !jiraConfig.instances)) {
+                throw new Error(`JIRA jiraSupport: Missing configuration, must supply sdm.jira.url or sdm.jira.instances`);
+            }
+
             sdm.addIngester(GraphQL.ingester({ name: "jiraIssue" }));
             sdm.addEvent(onJiraIssueEvent);
             sdm.addEvent(onJiraIssueEventCache);
             sdm.addCommand(getCurrentChannelMappingsReg);
             sdm.addCommand(setJiraChannelPrefsReg);
             sdm.addCommand(getJiraChannelPrefsReg);
+            sdm.addCommand(setJiraChannelFilterReg);
+            sdm.addCommand(setJiraChannelFieldsReg);
+            sdm.addCommand(setJiraUserPrefsReg);
             sdm.addCommand(commentOnIssue);
             sdm.addCommand(mapProjectToChannelReg);
             sdm.addCommand(removeProjectMapFromChannelReg);
@@ -84,6 +138,16 @@ export const jiraSupport = (
             sdm.addCommand(removeComponentMapFromChannelReg);
             sdm.addCommand(createIssueReg);
             sdm.addCommand(setIssueStatus);
+            sdm.addCommand(linkJiraAccountReg);
+            sdm.addCommand(unlinkJiraAccountReg);
+            sdm.addCommand(refreshJiraIdentityReg);
+            sdm.addCommand(jiraDoctorReg);
+            sdm.addCommand(getJiraWriteQueueReg);
+            if (options.cacheCommands) {
+                sdm.addCommand(getJiraCacheStatsReg);
+                sdm.addCommand(flushJiraCacheReg);
+                sdm.addCommand(purgeJiraCacheReg);
+            }
 
             if (cache) {
                 sdm.configuration.sdm.jiraCache = cache;
@@ -95,12 +159,26 @@ export const jiraSupport = (
             }
 
             sdm.configuration.sdm.jiraAuthenticator = authenticator;
+            sdm.configuration.listeners = [
+                ...(sdm.configuration.listeners || []),
+                new JiraDoctorStartupListener(),
+                new JiraCacheWarmupListener(),
+            ];
+
+            // Retry writes that were queued while JIRA was unavailable
+            const queueConfig = {...getJiraQueueConfig(), ...jiraConfig.queue};
+            if (queueConfig.enabled) {
+                sdm.addTriggeredListener({
+                    trigger: {interval: queueConfig.interval},
+                    listener: async li => processJiraWriteQueue(li),
+                });
+            }
             return sdm;
         },
     };
 };
 
-export interface JiraConfig {
+export interface JiraInstanceConfig {
     /**
      * Base URL to your JIRA Server instance
      */
@@ -121,4 +199,81 @@ export interface JiraConfig {
      * Password for connecting to your JIRA Server
      */
     password: string;
+
+    /**
+     * OAuth (application link) details, required when using the jiraOAuthAuthenticator
+     */
+    oauth?: JiraOAuthConfig;
+
+    /**
+     * Optional, version of the JIRA REST API to use.  Version 3 (JIRA Cloud only) uses Atlassian Document Format for
+     * descriptions and comments.  Default 2
+     */
+    apiVersion?: 2 | 3;
+
+    /**
+     * Optional, authenticator to use for this instance.  If not supplied the authenticator passed to jiraSupport is used.
+     */
+    authenticator?: JiraAuthenticator;
+}
+
+export interface JiraConfig extends JiraInstanceConfig {
+    /**
+     * Optional, named JIRA instances.  When supplied these are used in place of the instance defined by url, vcstype, user and password.
+     */
+    instances?: {[name: string]: JiraInstanceConfig};
+
+    /**
+     * Optional, name of the instance to use when one cannot be determined.  Defaults to the first instance.
+     */
+    defaultInstance?: string;
+
+    /**
+     * Retry and timeout settings used for all requests to JIRA
+     */
+    client?: JiraClientConfig;
+
+    /**
+     * Startup configuration checks (see jira doctor)
+     */
+    doctor?: JiraDoctorConfig;
+
+    /**
+     * Queueing of writes made while JIRA is unavailable
+     */
+    queue?: JiraQueueConfig;
+
+    /**
+     * Cache policies, used when useCache is enabled
+     */
+    cache?: JiraCacheConfig;
+
+    /**
+     * Chat user ids (ie U0123ABCD) allowed to run admin commands, such as cache management
+     */
+    admins?: string[];
+}
+
+export interface JiraSupportOptions {
+    /**
+     * Register the jira cache stats, jira cache flush and jira cache purge commands (restricted to admins).  Default false
+     */
+    cacheCommands?: boolean;
+}
+
+export interface JiraOAuthConfig {
+    /**
+     * Consumer key configured on the JIRA application link
+     */
+    consumerKey: string;
+
+    /**
+     * PEM encoded RSA private key matching the public key configured on the JIRA application link
+     */
+    privateKey: string;
+
+    /**
+     * Access token obtained through the OAuth dance for the service account
+     */
+    accessToken: string;
 }
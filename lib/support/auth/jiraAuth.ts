@@ -0,0 +1,47 @@
+/*
+ * Copyright © 2019 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { configurationValue } from "@atomist/automation-client";
+import { SdmContext } from "@atomist/sdm";
+import {
+    JiraAuthenticator,
+    JiraRequestDetails,
+} from "../../jira";
+import {
+    findJiraInstanceByUrl,
+    getJiraInstance,
+} from "../instances";
+import { getJiraUserAuth } from "./userCredentials";
+
+/**
+ * Retrieve the Authorization header to use for a request.  If the invoking chat user has linked their own JIRA credentials
+ * those are used, otherwise this falls back to the configured authenticator (service account).
+ *
+ * @param {SdmContext} ctx Where present in calling functions, should be passed in
+ * @param {JiraRequestDetails} request Details of the request being made, required by authenticators that sign requests
+ */
+export async function getJiraAuth(ctx?: SdmContext, request?: JiraRequestDetails): Promise<{Authorization: string}> {
+    const instance = request ? findJiraInstanceByUrl(request.url) : getJiraInstance();
+    const instanceRequest = request ? {...request, instance: instance.name} : undefined;
+    if (ctx) {
+        const userAuth = await getJiraUserAuth(ctx, instance.name, instanceRequest);
+        if (userAuth) {
+            return userAuth;
+        }
+    }
+    const authenticator = instance.authenticator || configurationValue<JiraAuthenticator>("sdm.jiraAuthenticator");
+    return authenticator(ctx, instanceRequest);
+}
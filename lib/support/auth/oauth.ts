@@ -0,0 +1,111 @@
+/*
+ * Copyright © 2019 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as crypto from "crypto";
+import { URL } from "url";
+import {
+    JiraAuthenticator,
+    JiraOAuthConfig,
+    JiraRequestDetails,
+} from "../../jira";
+import { getJiraInstance } from "../instances";
+
+/**
+ * Percent encode a value per RFC 3986, as required by the OAuth 1.0a spec
+ * @param {string} value
+ * @returns {string}
+ */
+export function oauthEncode(value: string): string {
+    return encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/**
+ * Build the OAuth 1.0a signature base string for a request.  Query string parameters from the request url are
+ * included in the normalized parameter list alongside the supplied oauth parameters.
+ *
+ * @param {JiraRequestDetails} request
+ * @param {Record<string, string>} oauthParams
+ * @returns {string}
+ */
+export function buildSignatureBaseString(request: JiraRequestDetails, oauthParams: Record<string, string>): string {
+    const parsed = new URL(request.url);
+    const params: Array<[string, string]> = Object.keys(oauthParams).map<[string, string]>(k => [k, oauthParams[k]]);
+    parsed.searchParams.forEach((v, k) => params.push([k, v]));
+
+    const normalized = params
+        .map(([k, v]) => [oauthEncode(k), oauthEncode(v)])
+        .sort((a, b) => a[0] === b[0] ? (a[1] < b[1] ? -1 : 1) : (a[0] < b[0] ? -1 : 1))
+        .map(([k, v]) => `${k}=${v}`)
+        .join("&");
+    const baseUrl = `${parsed.protocol}//${parsed.host}${parsed.pathname}`;
+
+    return [
+        request.method.toUpperCase(),
+        oauthEncode(baseUrl),
+        oauthEncode(normalized),
+    ].join("&");
+}
+
+/**
+ * Build a signed OAuth 1.0a (RSA-SHA1) Authorization header value for the supplied request
+ *
+ * @param {JiraOAuthConfig} oauth
+ * @param {JiraRequestDetails} request
+ * @param {string} nonce Optional, a random value is generated if not supplied
+ * @param {string} timestamp Optional, the current time is used if not supplied
+ * @returns {string}
+ */
+export function buildOAuthHeader(
+    oauth: JiraOAuthConfig,
+    request: JiraRequestDetails,
+    nonce: string = crypto.randomBytes(16).toString("hex"),
+    timestamp: string = Math.floor(Date.now() / 1000).toString(),
+): string {
+    const oauthParams: Record<string, string> = {
+        oauth_consumer_key: oauth.consumerKey,
+        oauth_nonce: nonce,
+        oauth_signature_method: "RSA-SHA1",
+        oauth_timestamp: timestamp,
+        oauth_token: oauth.accessToken,
+        oauth_version: "1.0",
+    };
+
+    const signature = crypto.createSign("RSA-SHA1")
+        .update(buildSignatureBaseString(request, oauthParams))
+        .sign(oauth.privateKey, "base64");
+
+    const header: Record<string, string> = {...oauthParams, oauth_signature: signature};
+    return "OAuth " + Object.keys(header).map(k => `${oauthEncode(k)}="${oauthEncode(header[k])}"`).join(", ");
+}
+
+/**
+ * OAuth 1.0a Authenticator, for use with JIRA application links.  Signs every request using RSA-SHA1 with the consumer key, private key
+ * and access token found in the oauth configuration of the JIRA instance (or the supplied config).
+ *
+ * Usage: jiraSupport(jiraOAuthAuthenticator())
+ *
+ * @param {JiraOAuthConfig} config Optional, if not supplied the oauth configuration of the instance will be used
+ * @returns {JiraAuthenticator}
+ */
+export function jiraOAuthAuthenticator(config?: JiraOAuthConfig): JiraAuthenticator {
+    return async (ctx, request) => {
+        if (!request) {
+            throw new Error("JIRA jiraOAuthAuthenticator: Cannot sign request, no request details supplied");
+        }
+        const oauth = config || getJiraInstance(request.instance).oauth;
+        return { Authorization: buildOAuthHeader(oauth, request) };
+    };
+}
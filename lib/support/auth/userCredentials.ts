@@ -0,0 +1,181 @@
+/*
+ * Copyright © 2019 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+    configurationValue,
+    logger,
+} from "@atomist/automation-client";
+import {
+    PreferenceStoreFactory,
+    SdmContext,
+} from "@atomist/sdm";
+import { JiraRequestDetails } from "../../jira";
+import { getJiraInstance } from "../instances";
+import { recordJiraCacheLookup } from "../metrics";
+import { buildOAuthHeader } from "./oauth";
+
+/**
+ * Credentials linked by an individual chat user
+ *
+ * basic: user is the JIRA username (or email address for JIRA Cloud), token is the API token (or password)
+ * oauth: token is an OAuth access token for this user, signed using the application link defined in the instance oauth configuration
+ */
+export interface JiraUserCredential {
+    type: "basic" | "oauth";
+    user?: string;
+    token: string;
+}
+
+/**
+ * Linked credentials (and the absence of them) looked up recently, by key.  Credentials are never stored in the JIRA cache, which
+ * may be shared or persisted, so each replica remembers them in memory for a short time instead.
+ */
+const UserCredentials = new Map<string, {credential: JiraUserCredential | undefined, expires: number}>();
+const UserCredentialTtl = 60 * 1000;
+
+export function buildJiraUserCredentialKey(workspaceId: string, instance: string, chatUserId: string): string {
+    return `${workspaceId}-credentials-${instance}-${chatUserId}`;
+}
+
+/**
+ * Is this the key of a linked credential?  Earlier versions stored credentials in the JIRA cache, they may still be there.
+ */
+export function isJiraUserCredentialKey(key: string): boolean {
+    return key.includes("-credentials-");
+}
+
+/**
+ * Determine the chat user that started this invocation, if any.  Events (and goals) do not have an invoking user.
+ * @param {SdmContext} ctx
+ * @returns {string | undefined}
+ */
+export function getInvokingChatUserId(ctx?: SdmContext): string | undefined {
+    if (
+        ctx &&
+        ctx.context &&
+        ctx.context.source &&
+        ctx.context.source.slack &&
+        ctx.context.source.slack.user
+    ) {
+        return ctx.context.source.slack.user.id;
+    }
+    return undefined;
+}
+
+/**
+ * Identify the credentials requests made with this context are sent with, without looking them up.  Requests from different chat
+ * users are assumed to use different credentials (they may have linked their own), as are requests from different workspaces
+ * (authenticators receive the context).
+ * @param {SdmContext} ctx
+ * @returns {string}
+ */
+export function getJiraCredentialScope(ctx?: SdmContext): string {
+    const workspaceId = ctx && ctx.context ? ctx.context.workspaceId : undefined;
+    const chatUserId = getInvokingChatUserId(ctx);
+    return `${workspaceId || ""}${chatUserId ? "-" + chatUserId : ""}`;
+}
+
+/**
+ * Identify the credentials a request to a JIRA instance is sent with: the invoking chat user's scope (see getJiraCredentialScope)
+ * if they have linked their own credentials for the instance, otherwise an empty string for the service account.  Responses may
+ * only be shared between requests with the same scope.
+ * @param {SdmContext} ctx
+ * @param {string} instance The name of the JIRA instance
+ * @returns {string}
+ */
+export async function getJiraRequestScope(ctx: SdmContext | undefined, instance: string): Promise<string> {
+    if (!getInvokingChatUserId(ctx)) {
+        return "";
+    }
+    const credential = await cachedJiraUserCredentialLookup(ctx, instance);
+    return credential ? getJiraCredentialScope(ctx) : "";
+}
+
+/**
+ * Lookup the JIRA credentials the invoking chat user has linked for a JIRA instance.  When the cache is enabled the result is
+ * remembered in process memory for a minute, see forgetJiraUserCredential.
+ * @param {SdmContext} ctx
+ * @param {string} instance The name of the JIRA instance
+ * @returns {JiraUserCredential | undefined}
+ */
+export async function cachedJiraUserCredentialLookup(ctx: SdmContext, instance: string): Promise<JiraUserCredential | undefined> {
+    const chatUserId = getInvokingChatUserId(ctx);
+    if (!chatUserId) {
+        return undefined;
+    }
+
+    const enable = configurationValue<boolean>("sdm.jira.useCache", false);
+    const hashKey = buildJiraUserCredentialKey(ctx.context.workspaceId, instance, chatUserId);
+    const result = UserCredentials.get(hashKey);
+    const hit = result !== undefined && result.expires > Date.now();
+    if (enable) {
+        recordJiraCacheLookup("cachedJiraUserCredentialLookup", hit);
+    }
+
+    if (hit && enable) {
+        logger.debug(`JIRA cachedJiraUserCredentialLookup => ${hashKey}: Cache hit, re-using value...`);
+        return result.credential;
+    } else {
+        logger.debug(`JIRA cachedJiraUserCredentialLookup => ${hashKey}: Cache ${enable ? "miss" : "disabled"}, querying...`);
+        const prefStore = configurationValue<PreferenceStoreFactory>("sdm.preferenceStoreFactory")(ctx.context);
+        const credential = await prefStore.get<JiraUserCredential>(hashKey, {scope: "JIRAUserCredentials"});
+        if (enable) {
+            UserCredentials.set(hashKey, {credential, expires: Date.now() + UserCredentialTtl});
+        } else {
+            UserCredentials.delete(hashKey);
+        }
+        return credential;
+    }
+}
+
+/**
+ * Forget the remembered credentials for a key, once they are linked or unlinked.  Other replicas may use the previous credentials
+ * for up to a minute.
+ * @param {string} key See buildJiraUserCredentialKey
+ */
+export function forgetJiraUserCredential(key: string): void {
+    UserCredentials.delete(key);
+}
+
+/**
+ * Build the Authorization header for the invoking chat user, if they have linked their JIRA account.
+ *
+ * @param {SdmContext} ctx
+ * @param {string} instance The name of the JIRA instance
+ * @param {JiraRequestDetails} request
+ * @returns {{Authorization: string} | undefined} undefined if the user has not linked their account
+ */
+export async function getJiraUserAuth(
+    ctx: SdmContext,
+    instance: string,
+    request?: JiraRequestDetails,
+): Promise<{Authorization: string} | undefined> {
+    const credential = await cachedJiraUserCredentialLookup(ctx, instance);
+    if (!credential) {
+        return undefined;
+    }
+
+    if (credential.type === "oauth") {
+        if (!request) {
+            logger.warn(`JIRA getJiraUserAuth: Cannot sign request for user without request details, using service account`);
+            return undefined;
+        }
+        const oauth = getJiraInstance(instance).oauth;
+        return { Authorization: buildOAuthHeader({...oauth, accessToken: credential.token}, request) };
+    } else {
+        return { Authorization: `Basic ${Buffer.from(credential.user + ":" + credential.token).toString("base64")}` };
+    }
+}
@@ -0,0 +1,91 @@
+/*
+ * Copyright © 2019 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { configurationValue } from "@atomist/automation-client";
+
+/**
+ * getJiraDetails call sites that can serve stale entries, see JiraCacheConfig.staleWhileRevalidate
+ *
+ * projects: The project list used by project select menus
+ * project: Project details (components, issue types)
+ * createmeta: Fields required to create an issue
+ * assignableUsers: Users offered when prompting for user fields
+ */
+export type JiraCacheSite = "projects" | "project" | "createmeta" | "assignableUsers";
+
+export interface JiraCacheWarmupConfig {
+    /**
+     * Preload projects, project details, channel mappings and preferences in the background when the SDM starts.  Default false
+     */
+    enabled?: boolean;
+
+    /**
+     * Maximum number of lookups made at once while warming the cache.  Default 4
+     */
+    concurrency?: number;
+}
+
+export interface JiraUserIdentityCacheConfig {
+    /**
+     * Time (seconds) to remember the JIRA user an email address belongs to.  Default 86400
+     */
+    ttl?: number;
+
+    /**
+     * Time (seconds) to remember that no JIRA user has an email address.  Default 900
+     */
+    negativeTtl?: number;
+}
+
+export interface JiraCacheConfig {
+    /**
+     * Call sites that serve an expired entry immediately while it is refreshed in the background, with the maximum time, in
+     * seconds, past expiry an entry can be served.  After that callers wait for JIRA.  ie {"projects": 86400}.  Default none
+     */
+    staleWhileRevalidate?: {[site in JiraCacheSite]?: number};
+
+    /**
+     * Warm the cache when the SDM starts, requires useCache
+     */
+    warmup?: JiraCacheWarmupConfig;
+
+    /**
+     * How long to remember which JIRA user (if any) chat users' email addresses belong to, requires useCache
+     */
+    userIdentity?: JiraUserIdentityCacheConfig;
+}
+
+const DefaultJiraCacheConfig: JiraCacheConfig = {
+    staleWhileRevalidate: {},
+    warmup: {
+        enabled: false,
+        concurrency: 4,
+    },
+    userIdentity: {
+        ttl: 86400,
+        negativeTtl: 900,
+    },
+};
+
+export function getJiraCacheConfig(): JiraCacheConfig {
+    const config = configurationValue<JiraCacheConfig>("sdm.jira.cache", {});
+    return {
+        ...DefaultJiraCacheConfig,
+        ...config,
+        warmup: {...DefaultJiraCacheConfig.warmup, ...config.warmup},
+        userIdentity: {...DefaultJiraCacheConfig.userIdentity, ...config.userIdentity},
+    };
+}
@@ -6,13 +6,17 @@ export interface JiraCacheStats {
     vsize: number;
 }
 
+/**
+ * Cache used to reduce the load on JIRA.  Methods may return their result directly (ie an in-process cache) or a promise (ie a
+ * cache shared between SDM replicas), callers must await every result.
+ */
 export interface JiraCache {
     /**
      * Used to retrieve value for thing given key
      * @param {string | number} key
      * @returns {T | undefined}
      */
-    get<T>(key: string | number): T | undefined;
+    get<T>(key: string | number): T | undefined | Promise<T | undefined>;
 
     /**
      * Used to delete a key from the cache.
@@ -20,7 +24,7 @@ export interface JiraCache {
      * @param {string | number} key
      * @returns {number} the number of values purged from the cache
      */
-    del(key: string | number): number;
+    del(key: string | number): number | Promise<number>;
 
     /**
      * Used to set a new value.
@@ -28,22 +32,53 @@ export interface JiraCache {
      * @param {string} key The name of the key to set
      * @param {T} value The data to populate
      * @param {number} ttl The number of seconds to keep this data before its purged
+     * @param {string[]} tags Optional, tags (ie issue:10001) that invalidate this entry, replacing any tags it had
      */
     set<T>(
         key: string | number,
         value: T,
         ttl?: number,
-    ): boolean;
+        tags?: string[],
+    ): boolean | Promise<boolean>;
+
+    /**
+     * Used to delete every entry set with the supplied tag.  Optional, without it tagged entries are only removed when they expire.
+     *
+     * @param {string} tag
+     * @returns {number} the number of values purged from the cache
+     */
+    invalidateTag?(tag: string): number | Promise<number>;
+
+    /**
+     * Used to list the keys in the cache.  Optional, without it keys can't be listed or purged by prefix.
+     *
+     * @param {string} prefix Optional, only list keys starting with this prefix
+     * @returns {string[]}
+     */
+    keys?(prefix?: string): string[] | Promise<string[]>;
+
+    /**
+     * Used to retrieve the remaining time to live of a key.  Optional, without it entries can't be inspected.
+     *
+     * @param {string | number} key
+     * @returns {number | undefined} seconds until the key expires, 0 if it never expires or undefined if the key isn't present
+     */
+    ttl?(key: string | number): number | undefined | Promise<number | undefined>;
 
     /**
      * Purge all cache entries
      */
-    flushAll(): void;
+    flushAll(): void | Promise<void>;
+
+    /**
+     * Reset the hit and miss counts returned by getStats.  Optional, without it stats can't be reset.
+     */
+    resetStats?(): void | Promise<void>;
 
     /**
      * Retrieve stats about cache usage
      *
      * @returns {JiraCacheStats}
      */
-    getStats(): JiraCacheStats;
+    getStats(): JiraCacheStats | Promise<JiraCacheStats>;
 }
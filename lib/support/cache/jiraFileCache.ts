@@ -0,0 +1,298 @@
+/*
+ * Copyright © 2019 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+    logger,
+    registerShutdownHook,
+} from "@atomist/automation-client";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { setInterval } from "timers";
+import { writePrivateFile } from "../helpers/files";
+import {
+    JiraCache,
+    JiraCacheStats,
+} from "./jiraCache";
+
+export interface JiraFileCacheOptions {
+    /**
+     * File the cache is persisted to.  Default ~/.atomist/jira-cache.json
+     */
+    path?: string;
+
+    /**
+     * Default time to live, in seconds, for entries set without a ttl.  0 means entries never expire.  Default 3600
+     */
+    stdTTL?: number;
+
+    /**
+     * How often (ms) changes are written to the file.  The cache is also written when the SDM shuts down.  Default 60000
+     */
+    flushInterval?: number;
+
+    /**
+     * Maximum size (bytes) of the keys and values held, the least recently used entries are evicted beyond it.  Default 50MB
+     */
+    maxSize?: number;
+}
+
+interface JiraFileCacheEntry {
+    key: string;
+
+    /**
+     * The value as JSON, so callers can't modify cached values and the size of the entry is known
+     */
+    value: string;
+
+    /**
+     * When the entry expires, in milliseconds since the epoch.  0 if it never expires
+     */
+    expires: number;
+    tags: string[];
+}
+
+interface JiraFileCacheContent {
+    version: 1;
+
+    /**
+     * Least recently used first
+     */
+    entries: JiraFileCacheEntry[];
+}
+
+/**
+ * JiraCache held in memory and persisted to a local file, so entries survive restarts without running Redis.  Suitable for
+ * an SDM running a single replica.
+ *
+ * Entries are written to the file periodically and when the SDM shuts down, and loaded when the cache is created.  Expired
+ * entries are dropped as they are read, written or loaded.
+ */
+export class JiraFileCache implements JiraCache {
+    private readonly path: string;
+    private readonly stdTTL: number;
+    private readonly maxSize: number;
+
+    /**
+     * Entries in least recently used order, a Map iterates in insertion order so reading an entry re-inserts it
+     */
+    private readonly entries: Map<string, JiraFileCacheEntry> = new Map();
+    private readonly tagKeys: Map<string, Set<string>> = new Map();
+    private size: number = 0;
+    private hits: number = 0;
+    private misses: number = 0;
+    private dirty: boolean = false;
+    private flushing: Promise<void> = Promise.resolve();
+
+    constructor(options: JiraFileCacheOptions = {}) {
+        this.path = options.path || path.join(os.homedir(), ".atomist", "jira-cache.json");
+        this.stdTTL = options.stdTTL !== undefined ? options.stdTTL : 3600;
+        this.maxSize = options.maxSize !== undefined ? options.maxSize : 50 * 1024 * 1024;
+        this.load();
+
+        setInterval(() => this.flush(), options.flushInterval || 60000).unref();
+        registerShutdownHook(async () => {
+            await this.flush();
+            return 0;
+        }, 1000, "persist JIRA file cache");
+    }
+
+    public get<T>(key: string | number): T | undefined {
+        const entry = this.entry(`${key}`);
+        if (!entry) {
+            this.misses++;
+            return undefined;
+        }
+        this.hits++;
+        // Reads only change the order of entries, which is written along with the next change
+        this.entries.delete(entry.key);
+        this.entries.set(entry.key, entry);
+        return JSON.parse(entry.value);
+    }
+
+    public set<T>(key: string | number, value: T, ttl?: number, tags: string[] = []): boolean {
+        if (value === undefined) {
+            return false;
+        }
+
+        const expiry = ttl !== undefined ? ttl : this.stdTTL;
+        this.remove(`${key}`);
+        this.add({
+            key: `${key}`,
+            value: JSON.stringify(value),
+            expires: expiry > 0 ? Date.now() + expiry * 1000 : 0,
+            tags,
+        });
+        this.evict();
+        this.dirty = true;
+        return true;
+    }
+
+    public del(key: string | number): number {
+        return this.remove(`${key}`) ? 1 : 0;
+    }
+
+    public invalidateTag(tag: string): number {
+        const keys = Array.from(this.tagKeys.get(tag) || []);
+        return keys.reduce((deleted, key) => deleted + this.del(key), 0);
+    }
+
+    public keys(prefix: string = ""): string[] {
+        return Array.from(this.entries.keys()).filter(k => k.startsWith(prefix) && !!this.entry(k));
+    }
+
+    public ttl(key: string | number): number | undefined {
+        const entry = this.entry(`${key}`);
+        if (!entry) {
+            return undefined;
+        }
+        return entry.expires === 0 ? 0 : Math.max(Math.ceil((entry.expires - Date.now()) / 1000), 0);
+    }
+
+    public flushAll(): void {
+        this.entries.clear();
+        this.tagKeys.clear();
+        this.size = 0;
+        this.hits = 0;
+        this.misses = 0;
+        this.dirty = true;
+    }
+
+    public resetStats(): void {
+        this.hits = 0;
+        this.misses = 0;
+    }
+
+    public getStats(): JiraCacheStats {
+        const entries = Array.from(this.entries.values());
+        return {
+            hits: this.hits,
+            misses: this.misses,
+            keys: entries.length,
+            ksize: entries.reduce((size, e) => size + Buffer.byteLength(e.key), 0),
+            vsize: entries.reduce((size, e) => size + Buffer.byteLength(e.value), 0),
+        };
+    }
+
+    /**
+     * Write the cache to the file if it has changed since it was last written.  Writes are serialized, and go to a temporary
+     * file that replaces the cache file so a crash mid-write can't corrupt it.  The file is only readable by the SDM's user.
+     */
+    public async flush(): Promise<void> {
+        this.flushing = this.flushing.then(async () => {
+            if (!this.dirty) {
+                return;
+            }
+            this.dirty = false;
+            const now = Date.now();
+            const content: JiraFileCacheContent = {
+                version: 1,
+                entries: Array.from(this.entries.values()).filter(e => e.expires === 0 || e.expires > now),
+            };
+            try {
+                await writePrivateFile(this.path, JSON.stringify(content));
+                logger.debug(`JIRA JiraFileCache: Wrote ${content.entries.length} entries to ${this.path}`);
+            } catch (e) {
+                this.dirty = true;
+                logger.error(`JIRA JiraFileCache: Failed to write ${this.path}.  Error => ${e}`);
+            }
+        });
+        return this.flushing;
+    }
+
+    /**
+     * Synchronous so that entries are available as soon as the cache is created.  A missing or unreadable file starts an empty cache.
+     */
+    private load(): void {
+        let content: JiraFileCacheContent;
+        try {
+            content = JSON.parse(fs.readFileSync(this.path, "utf8"));
+        } catch (e) {
+            if (e.code !== "ENOENT") {
+                logger.warn(`JIRA JiraFileCache: Failed to read ${this.path}, starting with an empty cache.  Error => ${e}`);
+            }
+            return;
+        }
+
+        const now = Date.now();
+        (content.entries || [])
+            .filter(e => e.expires === 0 || e.expires > now)
+            .forEach(e => this.add({...e, tags: e.tags || []}));
+        this.evict();
+        logger.debug(`JIRA JiraFileCache: Loaded ${this.entries.size} entries from ${this.path}`);
+    }
+
+    /**
+     * Retrieve an entry that hasn't expired, expired entries are removed
+     */
+    private entry(key: string): JiraFileCacheEntry | undefined {
+        const entry = this.entries.get(key);
+        if (entry && entry.expires !== 0 && entry.expires <= Date.now()) {
+            this.remove(key);
+            return undefined;
+        }
+        return entry;
+    }
+
+    private add(entry: JiraFileCacheEntry): void {
+        this.entries.set(entry.key, entry);
+        this.size += entrySize(entry);
+        entry.tags.forEach(tag => {
+            if (!this.tagKeys.has(tag)) {
+                this.tagKeys.set(tag, new Set());
+            }
+            this.tagKeys.get(tag).add(entry.key);
+        });
+    }
+
+    private remove(key: string): boolean {
+        const entry = this.entries.get(key);
+        if (!entry) {
+            return false;
+        }
+        this.entries.delete(key);
+        this.size -= entrySize(entry);
+        entry.tags.forEach(tag => {
+            const keys = this.tagKeys.get(tag);
+            keys.delete(key);
+            if (keys.size === 0) {
+                this.tagKeys.delete(tag);
+            }
+        });
+        this.dirty = true;
+        return true;
+    }
+
+    /**
+     * Remove the least recently used entries until the cache fits within maxSize
+     */
+    private evict(): void {
+        for (const key of this.entries.keys()) {
+            if (this.size <= this.maxSize) {
+                break;
+            }
+            logger.debug(`JIRA JiraFileCache: Evicting ${key}, cache exceeds ${this.maxSize} bytes`);
+            this.remove(key);
+        }
+    }
+}
+
+/**
+ * The size of an entry in bytes, as maxSize is
+ */
+function entrySize(entry: JiraFileCacheEntry): number {
+    return Buffer.byteLength(entry.key) + Buffer.byteLength(entry.value);
+}
@@ -22,28 +22,95 @@ import {
 
 export class JiraNodeCache implements JiraCache {
     private readonly cache: NodeCache;
+
+    /**
+     * The keys set with each tag, and the tags of each key.  Entries are removed as keys are deleted or expire.
+     */
+    private readonly tagKeys: Map<string, Set<string>> = new Map();
+    private readonly keyTags: Map<string, string[]> = new Map();
+
+    /**
+     * Hits and misses when stats were last reset, node-cache can't reset its own stats without flushing
+     */
+    private statsBaseline: {hits: number, misses: number} = {hits: 0, misses: 0};
+
     constructor(options: NodeCache.Options) {
         this.cache = new NodeCache(options);
+        this.cache.on("del", key => this.untag(`${key}`));
+        this.cache.on("flush", () => {
+            this.tagKeys.clear();
+            this.keyTags.clear();
+        });
     }
 
     public get<T>(key: string | number): T | undefined {
         return this.cache.get(key);
     }
 
-    public set<T>(key: string | number, value: T, ttl?: number | string): boolean {
-        return this.cache.set(key, value, ttl);
+    public set<T>(key: string | number, value: T, ttl?: number | string, tags: string[] = []): boolean {
+        const result = this.cache.set(key, value, ttl);
+        this.untag(`${key}`);
+        if (result && tags.length > 0) {
+            this.keyTags.set(`${key}`, tags);
+            tags.forEach(tag => {
+                if (!this.tagKeys.has(tag)) {
+                    this.tagKeys.set(tag, new Set());
+                }
+                this.tagKeys.get(tag).add(`${key}`);
+            });
+        }
+        return result;
+    }
+
+    public invalidateTag(tag: string): number {
+        const keys = this.tagKeys.get(tag);
+        return keys ? this.cache.del(Array.from(keys)) : 0;
     }
 
     public del(key: string | number): number {
         return this.cache.del(key);
     }
 
+    public keys(prefix: string = ""): string[] {
+        return this.cache.keys().filter(k => k.startsWith(prefix));
+    }
+
+    public ttl(key: string | number): number | undefined {
+        const expires = this.cache.getTtl(key);
+        if (expires === undefined) {
+            return undefined;
+        }
+        return expires === 0 ? 0 : Math.max(Math.ceil((expires - Date.now()) / 1000), 0);
+    }
+
     public flushAll(): void {
+        this.statsBaseline = {hits: 0, misses: 0};
         return this.cache.flushAll();
     }
 
+    public resetStats(): void {
+        const stats = this.cache.getStats();
+        this.statsBaseline = {hits: stats.hits, misses: stats.misses};
+    }
+
     public getStats(): JiraCacheStats {
-        return this.cache.getStats();
+        const stats = this.cache.getStats();
+        return {
+            ...stats,
+            hits: stats.hits - this.statsBaseline.hits,
+            misses: stats.misses - this.statsBaseline.misses,
+        };
     }
 
+    private untag(key: string): void {
+        const tags = this.keyTags.get(key) || [];
+        tags.forEach(tag => {
+            const keys = this.tagKeys.get(tag);
+            keys.delete(key);
+            if (keys.size === 0) {
+                this.tagKeys.delete(tag);
+            }
+        });
+        this.keyTags.delete(key);
+    }
 }
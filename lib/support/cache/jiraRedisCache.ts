@@ -0,0 +1,259 @@
+/*
+ * Copyright © 2019 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { logger } from "@atomist/automation-client";
+import {
+    JiraCache,
+    JiraCacheStats,
+} from "./jiraCache";
+
+/**
+ * The Redis commands JiraRedisCache sends in a pipeline
+ */
+export interface JiraRedisPipeline {
+    strlen(key: string): JiraRedisPipeline;
+
+    /**
+     * @returns The error (or null) and result of each command, in order
+     */
+    exec(): Promise<Array<[Error | null, any]>>;
+}
+
+/**
+ * The Redis commands used by JiraRedisCache.  An ioredis client (new Redis(...)) can be supplied as is.
+ */
+export interface JiraRedisClient {
+    get(key: string): Promise<string | null>;
+    set(key: string, value: string, ...args: any[]): Promise<any>;
+    del(...keys: string[]): Promise<number>;
+    scan(cursor: string | number, ...args: any[]): Promise<[string, string[]]>;
+    hincrby(key: string, field: string, increment: number): Promise<number>;
+    hgetall(key: string): Promise<{[field: string]: string}>;
+    sadd(key: string, ...members: string[]): Promise<number>;
+    smembers(key: string): Promise<string[]>;
+    ttl(key: string): Promise<number>;
+    expire(key: string, seconds: number): Promise<number>;
+    persist(key: string): Promise<number>;
+    pipeline(): JiraRedisPipeline;
+}
+
+export interface JiraRedisCacheOptions {
+    /**
+     * Prefix applied to every key.  flushAll only removes keys with this prefix, so a Redis instance can be shared.  Default "sdm-jira:"
+     */
+    prefix?: string;
+
+    /**
+     * Default time to live, in seconds, for entries set without a ttl.  0 means entries never expire.  Default 3600
+     */
+    stdTTL?: number;
+}
+
+/**
+ * JiraCache backed by Redis, allowing cache entries (and purges) to be shared between SDM replicas.  Values are stored as JSON.
+ *
+ * Redis failures are logged and treated as a cache miss, so JIRA is queried directly rather than failing the request.
+ */
+export class JiraRedisCache implements JiraCache {
+    private readonly prefix: string;
+    private readonly stdTTL: number;
+    private readonly statsKey: string;
+    private readonly tagPrefix: string;
+
+    constructor(private readonly client: JiraRedisClient, options: JiraRedisCacheOptions = {}) {
+        this.prefix = options.prefix !== undefined ? options.prefix : "sdm-jira:";
+        this.stdTTL = options.stdTTL !== undefined ? options.stdTTL : 3600;
+        this.statsKey = `${this.prefix}__stats__`;
+        this.tagPrefix = `${this.prefix}__tag__:`;
+    }
+
+    public async get<T>(key: string | number): Promise<T | undefined> {
+        try {
+            const value = await this.client.get(this.toKey(key));
+            this.recordStat(value !== null && value !== undefined ? "hits" : "misses");
+            return value !== null && value !== undefined ? JSON.parse(value) : undefined;
+        } catch (e) {
+            logger.error(`JIRA JiraRedisCache: Failed to get ${key}.  Error => ${e}`);
+            return undefined;
+        }
+    }
+
+    /**
+     * Each tag is a Redis set of the keys tagged with it, the set lives as long as the longest lived key added to it
+     */
+    public async set<T>(key: string | number, value: T, ttl?: number, tags: string[] = []): Promise<boolean> {
+        if (value === undefined) {
+            return false;
+        }
+
+        const expiry = ttl !== undefined ? ttl : this.stdTTL;
+        try {
+            if (expiry > 0) {
+                await this.client.set(this.toKey(key), JSON.stringify(value), "EX", expiry);
+            } else {
+                await this.client.set(this.toKey(key), JSON.stringify(value));
+            }
+            for (const tag of tags) {
+                await this.tag(tag, this.toKey(key), expiry);
+            }
+            return true;
+        } catch (e) {
+            logger.error(`JIRA JiraRedisCache: Failed to set ${key}.  Error => ${e}`);
+            return false;
+        }
+    }
+
+    public async del(key: string | number): Promise<number> {
+        try {
+            return await this.client.del(this.toKey(key));
+        } catch (e) {
+            logger.error(`JIRA JiraRedisCache: Failed to delete ${key}.  Error => ${e}`);
+            return 0;
+        }
+    }
+
+    public async invalidateTag(tag: string): Promise<number> {
+        try {
+            const keys = await this.client.smembers(this.tagPrefix + tag);
+            let deleted = 0;
+            for (const batch of chunk(keys, 500)) {
+                deleted += await this.client.del(...batch);
+            }
+            await this.client.del(this.tagPrefix + tag);
+            return deleted;
+        } catch (e) {
+            logger.error(`JIRA JiraRedisCache: Failed to invalidate tag ${tag}.  Error => ${e}`);
+            return 0;
+        }
+    }
+
+    public async keys(prefix: string = ""): Promise<string[]> {
+        try {
+            return (await this.scanKeys(false, prefix)).map(k => k.slice(this.prefix.length));
+        } catch (e) {
+            logger.error(`JIRA JiraRedisCache: Failed to list keys.  Error => ${e}`);
+            return [];
+        }
+    }
+
+    public async ttl(key: string | number): Promise<number | undefined> {
+        try {
+            // -2 the key doesn't exist, -1 it never expires
+            const ttl = await this.client.ttl(this.toKey(key));
+            return ttl === -2 ? undefined : Math.max(ttl, 0);
+        } catch (e) {
+            logger.error(`JIRA JiraRedisCache: Failed to get the ttl of ${key}.  Error => ${e}`);
+            return undefined;
+        }
+    }
+
+    public async resetStats(): Promise<void> {
+        try {
+            await this.client.del(this.statsKey);
+        } catch (e) {
+            logger.error(`JIRA JiraRedisCache: Failed to reset stats.  Error => ${e}`);
+        }
+    }
+
+    /**
+     * Remove every entry with this cache's prefix (and reset the stats)
+     */
+    public async flushAll(): Promise<void> {
+        try {
+            const keys = await this.scanKeys(true);
+            for (const batch of chunk(keys, 500)) {
+                await this.client.del(...batch);
+            }
+        } catch (e) {
+            logger.error(`JIRA JiraRedisCache: Failed to flush.  Error => ${e}`);
+        }
+    }
+
+    /**
+     * Stats are shared by every SDM using this prefix.  ksize and vsize are the total size, in bytes, of the keys and values stored,
+     * value sizes are requested in pipelined batches.
+     */
+    public async getStats(): Promise<JiraCacheStats> {
+        try {
+            const keys = await this.scanKeys();
+            const stats = await this.client.hgetall(this.statsKey) || {};
+            let vsize = 0;
+            for (const batch of chunk(keys, 500)) {
+                const pipeline = this.client.pipeline();
+                batch.forEach(k => pipeline.strlen(k));
+                // A key may expire between the scan and the pipeline, its size is then 0
+                vsize += (await pipeline.exec()).reduce((size, [err, len]) => size + (err ? 0 : Number(len) || 0), 0);
+            }
+            return {
+                hits: Number(stats.hits || 0),
+                misses: Number(stats.misses || 0),
+                keys: keys.length,
+                ksize: keys.reduce((size, k) => size + Buffer.byteLength(k) - Buffer.byteLength(this.prefix), 0),
+                vsize,
+            };
+        } catch (e) {
+            logger.error(`JIRA JiraRedisCache: Failed to get stats.  Error => ${e}`);
+            return {hits: 0, misses: 0, keys: 0, ksize: 0, vsize: 0};
+        }
+    }
+
+    private toKey(key: string | number): string {
+        return `${this.prefix}${key}`;
+    }
+
+    private async tag(tag: string, key: string, expiry: number): Promise<void> {
+        const tagKey = this.tagPrefix + tag;
+        // -2 the set doesn't exist yet, -1 it holds a key that never expires
+        const current = await this.client.ttl(tagKey);
+        await this.client.sadd(tagKey, key);
+        if (expiry === 0) {
+            await this.client.persist(tagKey);
+        } else if (current === -2 || (current >= 0 && current < expiry)) {
+            await this.client.expire(tagKey, expiry);
+        }
+    }
+
+    private recordStat(stat: "hits" | "misses"): void {
+        this.client.hincrby(this.statsKey, stat, 1).catch(e => logger.warn(`JIRA JiraRedisCache: Failed to record ${stat}.  Error => ${e}`));
+    }
+
+    /**
+     * @param {boolean} internal Include the keys used to record stats and tags
+     * @param {string} prefix Only return keys starting with this prefix (after the cache prefix)
+     */
+    private async scanKeys(internal: boolean = false, prefix: string = ""): Promise<string[]> {
+        const keys: string[] = [];
+        let cursor = "0";
+        do {
+            const [next, batch] = await this.client.scan(cursor, "MATCH", `${escapePattern(this.prefix + prefix)}*`, "COUNT", 1000);
+            keys.push(...batch.filter(k => internal || (k !== this.statsKey && !k.startsWith(this.tagPrefix))));
+            cursor = next;
+        } while (cursor !== "0");
+        return keys;
+    }
+}
+
+function escapePattern(value: string): string {
+    return value.replace(/[*?[\]\\]/g, "\\$&");
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+    const chunks: T[][] = [];
+    for (let i = 0; i < items.length; i += size) {
+        chunks.push(items.slice(i, i + size));
+    }
+    return chunks;
+}
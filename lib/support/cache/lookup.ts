@@ -24,7 +24,10 @@ import {
     buildJiraHashKey,
     JiraMapping,
 } from "../commands/shared";
+import { resolveJiraInstanceName } from "../instances";
+import { recordJiraCacheLookup } from "../metrics";
 import { JiraCache } from "./jiraCache";
+import { workspaceCacheTag } from "./tags";
 
 export interface JiraPreference {
     channel: string;
@@ -33,11 +36,53 @@ export interface JiraPreference {
     issueCreated: boolean;
     issueState: boolean;
     issueStatus: boolean;
-    bug: boolean;
-    task: boolean;
-    epic: boolean;
-    story: boolean;
-    subtask: boolean;
+
+    /**
+     * Whether to notify for each issue type, by id or by name (see issueTypeKey).  Issue types that aren't listed are notified
+     * according to otherIssueTypes.
+     */
+    issueTypes?: {[issueType: string]: boolean};
+
+    /**
+     * Whether to notify issue types that aren't listed in issueTypes.  Default true, except for preferences stored before
+     * issueTypes which only notified the standard issue types (see mungeJiraPrefs).
+     */
+    otherIssueTypes?: boolean;
+
+    /**
+     * Only present on preferences stored before issueTypes, which had a flag for each of the standard issue types instead.  They
+     * are migrated to issueTypes by mungeJiraPrefs.
+     */
+    bug?: boolean;
+    task?: boolean;
+    epic?: boolean;
+    story?: boolean;
+    subtask?: boolean;
+
+    /**
+     * Reply to an issue's card in a thread with the detail of comments and changes.  Default false
+     */
+    threaded?: boolean;
+
+    /**
+     * JQL clause issues must match to notify this channel, ie priority in (Blocker, Critical).  Default none
+     */
+    jql?: string;
+
+    /**
+     * Only changes to these fields notify this channel, by the field name shown in an issue's history (ie status, assignee, Fix Version,
+     * Sprint).  Default all fields
+     */
+    allowedFields?: string[];
+
+    /**
+     * Changes to these fields never notify this channel, ie Rank or description.  Ignored if allowedFields is set
+     */
+    ignoredFields?: string[];
+}
+
+function preferenceHashKey(workspaceId: string, channel: string): string {
+    return `${workspaceId}-preferences-${channel}`;
 }
 
 /**
@@ -51,10 +96,13 @@ export async function cachedJiraPreferenceLookup(
     channel: string,
 ): Promise<JiraPreference> {
     const enable = configurationValue<boolean>("sdm.jira.useCache", false);
-    const hashKey = `${ctx.workspaceId}-preferences-${channel}`;
+    const hashKey = preferenceHashKey(ctx.workspaceId, channel);
 
     const jiraCache = configurationValue<JiraCache>("sdm.jiraCache");
-    const result = jiraCache.get<JiraPreference>(hashKey);
+    const result = await jiraCache.get<JiraPreference>(hashKey);
+    if (enable) {
+        recordJiraCacheLookup("cachedJiraPreferenceLookup", result !== undefined);
+    }
 
     if (result !== undefined && enable) {
         logger.debug(`JIRA cachedJiraPreferenceLookup => ${hashKey}: Cache-hit, re-using value...`);
@@ -64,16 +112,112 @@ export async function cachedJiraPreferenceLookup(
         const prefStore = configurationValue<PreferenceStoreFactory>("sdm.preferenceStoreFactory")(ctx);
         const preferences = await prefStore.get<JiraPreference>(hashKey, {scope: "JIRAPreferences"});
         if (enable) {
-            jiraCache.set(hashKey, preferences);
+            await jiraCache.set(hashKey, preferences, undefined, [workspaceCacheTag(ctx.workspaceId, "preferences")]);
         }
         return preferences;
     }
 }
 
+/**
+ * A chat user's preferences for direct messages about the issues they are assigned, have reported or are watching.  Users
+ * opt in to each kind of event with jira notify me, every kind is off by default.
+ */
+export interface JiraUserPreference {
+    /**
+     * The chat user id (ie U0123ABCD) of the user, preferences are stored by id so they survive the user being renamed
+     */
+    chatUserId: string;
+    screenName?: string;
+
+    /**
+     * When they are assigned an issue
+     */
+    issueAssigned?: boolean;
+
+    /**
+     * When an issue they are assigned, have reported or are watching is commented on
+     */
+    issueComment?: boolean;
+
+    /**
+     * When an issue they are assigned, have reported or are watching is transitioned
+     */
+    issueStatus?: boolean;
+}
+
+/**
+ * Lookup the JiraUserPreference of the supplied chat user
+ * @param {HandlerContext} ctx
+ * @param {string} chatUserId The id of the chat user, ie U0123ABCD
+ * @returns {JiraUserPreference} undefined if the user hasn't set any preferences
+ */
+export async function cachedJiraUserPreferenceLookup(
+    ctx: HandlerContext,
+    chatUserId: string,
+): Promise<JiraUserPreference> {
+    const enable = configurationValue<boolean>("sdm.jira.useCache", false);
+    const hashKey = `${ctx.workspaceId}-user-preferences-${chatUserId}`;
+
+    const jiraCache = configurationValue<JiraCache>("sdm.jiraCache");
+    const result = enable ? await jiraCache.get<JiraUserPreference>(hashKey) : undefined;
+    if (enable) {
+        recordJiraCacheLookup("cachedJiraUserPreferenceLookup", result !== undefined);
+    }
+
+    if (result !== undefined) {
+        logger.debug(`JIRA cachedJiraUserPreferenceLookup => ${hashKey}: Cache-hit, re-using value...`);
+        return result;
+    }
+    logger.debug(`JIRA cachedJiraUserPreferenceLookup => ${hashKey}: Cache ${enable ? "miss" : "disabled"}, querying...`);
+    const prefStore = configurationValue<PreferenceStoreFactory>("sdm.preferenceStoreFactory")(ctx);
+    const preferences = await prefStore.get<JiraUserPreference>(hashKey, {scope: "JIRAUserPreferences"});
+    if (enable) {
+        // Users without preferences are cached too, most of the people notified about an issue won't have opted in
+        await jiraCache.set(hashKey, preferences || {chatUserId}, undefined, [workspaceCacheTag(ctx.workspaceId, "preferences")]);
+    }
+    return preferences;
+}
+
+/**
+ * Load every JiraPreference in a workspace into the cache
+ * @param {HandlerContext} ctx
+ * @returns {JiraPreference[]} The preferences cached
+ */
+export async function warmJiraPreferenceCache(ctx: HandlerContext): Promise<JiraPreference[]> {
+    const jiraCache = configurationValue<JiraCache>("sdm.jiraCache");
+    const prefStore = configurationValue<PreferenceStoreFactory>("sdm.preferenceStoreFactory")(ctx);
+    const preferences = (await prefStore.list<JiraPreference>("JIRAPreferences")).map(p => p.value);
+    for (const preference of preferences) {
+        await jiraCache.set(
+            preferenceHashKey(ctx.workspaceId, preference.channel), preference, undefined, [workspaceCacheTag(ctx.workspaceId, "preferences")]);
+    }
+    logger.debug(`JIRA warmJiraPreferenceCache => ${ctx.workspaceId}: Cached ${preferences.length} preferences`);
+    return preferences;
+}
+
 interface JiraMappingLookupSearch {
     projectId?: string;
     componentId?: string;
     channel?: string;
+    instance?: string;
+}
+
+function mappingHashKey(workspaceId: string, search: JiraMappingLookupSearch): string {
+    return buildJiraHashKey(workspaceId, {
+        projectId: search.projectId,
+        componentId: search.componentId,
+        channel: search.channel,
+        instance: search.instance,
+    });
+}
+
+function filterJiraMappings(allMaps: JiraMapping[], search: JiraMappingLookupSearch): JiraMapping[] {
+    return allMaps.filter(m =>
+        (search.projectId   ? m.projectId   === search.projectId   : true) &&
+        (search.componentId ? m.componentId === search.componentId : true) &&
+        (search.channel     ? m.channel     === search.channel     : true) &&
+        (search.instance    ? resolveJiraInstanceName(m.instance) === search.instance : true),
+    );
 }
 
 /**
@@ -86,10 +230,13 @@ export async function cachedJiraMappingLookup(
     ctx: HandlerContext,
     search?: JiraMappingLookupSearch,
 ): Promise<JiraMapping[]> {
-    const hashKey = buildJiraHashKey(ctx.workspaceId, {projectId: search.projectId, componentId: search.componentId, channel: search.channel});
+    const hashKey = mappingHashKey(ctx.workspaceId, search);
     const enable = configurationValue<boolean>("sdm.jira.useCache", false);
     const jiraCache = configurationValue<JiraCache>("sdm.jiraCache");
-    const result = jiraCache.get<JiraMapping[]>(hashKey);
+    const result = await jiraCache.get<JiraMapping[]>(hashKey);
+    if (enable) {
+        recordJiraCacheLookup("cachedJiraMappingLookup", result !== undefined);
+    }
 
     if (result !== undefined && enable) {
         logger.debug(`JIRA cachedJiraMappingLookup => ${hashKey}: Cache hit, re-using value...`);
@@ -99,14 +246,37 @@ export async function cachedJiraMappingLookup(
         const mappings = configurationValue<PreferenceStoreFactory>("sdm.preferenceStoreFactory")(ctx);
         const allMaps = await mappings.list<JiraMapping>("JIRAMappings");
 
-        const filteredMaps = allMaps.filter(m =>
-                (search.projectId   ? m.value.projectId   === search.projectId   : true) &&
-                (search.componentId ? m.value.componentId === search.componentId : true) &&
-                (search.channel     ? m.value.channel     === search.channel     : true),
-        ).map(a => a.value);
+        const filteredMaps = filterJiraMappings(allMaps.map(a => a.value), search);
         if (enable) {
-            jiraCache.set(hashKey, filteredMaps);
+            await jiraCache.set(hashKey, filteredMaps, undefined, [workspaceCacheTag(ctx.workspaceId, "mappings")]);
         }
         return filteredMaps;
     }
 }
+
+/**
+ * Load the results of every mapping lookup made when routing events (by channel, by project and by project component) for
+ * the mappings in a workspace into the cache
+ * @param {HandlerContext} ctx
+ * @returns {JiraMapping[]} Every mapping in the workspace
+ */
+export async function warmJiraMappingCache(ctx: HandlerContext): Promise<JiraMapping[]> {
+    const jiraCache = configurationValue<JiraCache>("sdm.jiraCache");
+    const mappings = configurationValue<PreferenceStoreFactory>("sdm.preferenceStoreFactory")(ctx);
+    const allMaps = (await mappings.list<JiraMapping>("JIRAMappings")).map(a => a.value);
+
+    const searches = new Map<string, JiraMappingLookupSearch>();
+    allMaps.forEach(m => {
+        const instance = resolveJiraInstanceName(m.instance);
+        [
+            {channel: m.channel},
+            m.projectId ? {projectId: m.projectId, instance} : undefined,
+            m.projectId && m.componentId ? {projectId: m.projectId, componentId: m.componentId, instance} : undefined,
+        ].filter(search => !!search).forEach(search => searches.set(mappingHashKey(ctx.workspaceId, search), search));
+    });
+    for (const [hashKey, search] of searches) {
+        await jiraCache.set(hashKey, filterJiraMappings(allMaps, search), undefined, [workspaceCacheTag(ctx.workspaceId, "mappings")]);
+    }
+    logger.debug(`JIRA warmJiraMappingCache => ${ctx.workspaceId}: Cached ${searches.size} lookups for ${allMaps.length} mappings`);
+    return allMaps;
+}
@@ -16,17 +16,15 @@
 
 import {
     configurationValue,
-    Failure,
     HandlerResult,
     logger,
     NoParameters,
-    Success,
 } from "@atomist/automation-client";
 import {
     CommandHandlerRegistration,
     CommandListenerInvocation,
-    slackSuccessMessage,
 } from "@atomist/sdm";
+import { getInvokingChatUserId } from "../auth/userCredentials";
 import {
     JiraCache,
     JiraCacheStats,
@@ -40,7 +38,7 @@ import {
 export async function flushCache(): Promise<void> {
     try {
         const cache = configurationValue<JiraCache>("sdm.jiraCache");
-        cache.flushAll();
+        await cache.flushAll();
         logger.info(`JIRA flushCache: Successfully purged JIRA cache entries`);
     } catch (e) {
         logger.error(`JIRA flushCache: Failed to purge cache.  Error => ${e}`);
@@ -57,7 +55,7 @@ export async function flushCache(): Promise<void> {
 export async function purgeCacheEntry(key: string): Promise<void> {
     try {
         const cache = configurationValue<JiraCache>("sdm.jiraCache");
-        const deleted = cache.del(key);
+        const deleted = await cache.del(key);
         logger.info(`JIRA purgeCacheEntry: Successfully purged key ${key} from JIRA cache. Deleted ${deleted} entries`);
     } catch (e) {
         logger.error(`JIRA purgeCacheEntry: Failed to purge entry ${key}.  Error => ${e}`);
@@ -66,31 +64,157 @@ export async function purgeCacheEntry(key: string): Promise<void> {
 }
 
 /**
- * getStats returns the usage information from the JIRA cache
+ * PurgeCachePrefix is used to purge every item whose key starts with the supplied prefix from the JIRA cache.
+ *
+ * @param {string} prefix ie a JIRA url, https://jira.example.com/rest/api/2/project
+ * @returns {number} The number of entries purged
  */
-export async function getStats(): Promise<JiraCacheStats> {
+export async function purgeCachePrefix(prefix: string): Promise<number> {
     try {
         const cache = configurationValue<JiraCache>("sdm.jiraCache");
-        return cache.getStats();
+        if (!cache.keys) {
+            throw unsupportedCacheMethod("keys");
+        }
+        let deleted = 0;
+        for (const key of await cache.keys(prefix)) {
+            deleted += await cache.del(key);
+        }
+        logger.info(`JIRA purgeCachePrefix: Successfully purged prefix ${prefix} from JIRA cache. Deleted ${deleted} entries`);
+        return deleted;
     } catch (e) {
-        logger.error(`JIRA getStats: Failed to retrieve JIRA cache stats.  Error => ${e}`);
+        logger.error(`JIRA purgeCachePrefix: Failed to purge prefix ${prefix}.  Error => ${e}`);
         throw new Error(e);
     }
 }
 
-export const getJiraStatsHandler = async (cli: CommandListenerInvocation<NoParameters>): Promise<HandlerResult> => {
+/**
+ * InvalidateCacheTags is used to purge every item set with any of the supplied tags from the JIRA cache, ie everything related to an issue.
+ *
+ * @param {string[]} tags The tags to invalidate, see tags.ts
+ * @returns {void}
+ */
+export async function invalidateCacheTags(...tags: string[]): Promise<void> {
     try {
-        const stats = await getStats();
-        await cli.addressChannels(slackSuccessMessage(`JIRA Cache Status`, `Stats: ${JSON.stringify(stats)}`));
-        return Success;
+        const cache = configurationValue<JiraCache>("sdm.jiraCache");
+        if (!cache.invalidateTag) {
+            logger.debug(`JIRA invalidateCacheTags: The JIRA cache does not support tags, entries are removed when they expire`);
+            return;
+        }
+        for (const tag of tags) {
+            const deleted = await cache.invalidateTag(tag);
+            logger.info(`JIRA invalidateCacheTags: Successfully invalidated tag ${tag} in JIRA cache. Deleted ${deleted} entries`);
+        }
     } catch (e) {
-        logger.error(`JIRA getJiraStatsHandler: Failed to retrieve stats. Error => ${e}`);
-        return Failure;
+        logger.error(`JIRA invalidateCacheTags: Failed to invalidate tags ${JSON.stringify(tags)}.  Error => ${e}`);
+        throw new Error(e);
     }
-};
+}
+
+/**
+ * listCacheKeys returns the keys in the JIRA cache
+ *
+ * @param {string} prefix Optional, only return keys starting with this prefix
+ */
+export async function listCacheKeys(prefix?: string): Promise<string[]> {
+    try {
+        const cache = configurationValue<JiraCache>("sdm.jiraCache");
+        if (!cache.keys) {
+            throw unsupportedCacheMethod("keys");
+        }
+        return (await cache.keys(prefix)).sort();
+    } catch (e) {
+        logger.error(`JIRA listCacheKeys: Failed to list JIRA cache keys.  Error => ${e}`);
+        throw new Error(e);
+    }
+}
+
+export interface JiraCacheEntry {
+    key: string;
+    value: any;
+
+    /**
+     * Seconds until the entry expires, 0 if it never expires
+     */
+    ttl: number;
+}
+
+/**
+ * inspectCacheEntry returns an entry in the JIRA cache, with its remaining time to live
+ *
+ * @param {string} key
+ * @returns {JiraCacheEntry | undefined} undefined if the key isn't present
+ */
+export async function inspectCacheEntry(key: string): Promise<JiraCacheEntry | undefined> {
+    try {
+        const cache = configurationValue<JiraCache>("sdm.jiraCache");
+        if (!cache.ttl) {
+            throw unsupportedCacheMethod("ttl");
+        }
+        const ttl = await cache.ttl(key);
+        const value = ttl !== undefined ? await cache.get<any>(key) : undefined;
+        return value !== undefined ? {key, value, ttl} : undefined;
+    } catch (e) {
+        logger.error(`JIRA inspectCacheEntry: Failed to retrieve entry ${key}.  Error => ${e}`);
+        throw new Error(e);
+    }
+}
 
+/**
+ * resetCacheStats resets the hit and miss counts of the JIRA cache
+ */
+export async function resetCacheStats(): Promise<void> {
+    try {
+        const cache = configurationValue<JiraCache>("sdm.jiraCache");
+        if (!cache.resetStats) {
+            throw unsupportedCacheMethod("resetStats");
+        }
+        await cache.resetStats();
+        logger.info(`JIRA resetCacheStats: Successfully reset JIRA cache stats`);
+    } catch (e) {
+        logger.error(`JIRA resetCacheStats: Failed to reset JIRA cache stats.  Error => ${e}`);
+        throw new Error(e);
+    }
+}
+
+/**
+ * getStats returns the usage information from the JIRA cache
+ */
+export async function getStats(): Promise<JiraCacheStats> {
+    try {
+        const cache = configurationValue<JiraCache>("sdm.jiraCache");
+        return await cache.getStats();
+    } catch (e) {
+        logger.error(`JIRA getStats: Failed to retrieve JIRA cache stats.  Error => ${e}`);
+        throw new Error(e);
+    }
+}
+
+/**
+ * Custom caches (sdm.jiraCache) written before JiraCache gained its optional methods may not implement them
+ */
+function unsupportedCacheMethod(method: string): Error {
+    return new Error(`The JIRA cache does not implement ${method}`);
+}
+
+/**
+ * Show the cache stats (as jira cache stats does) for the invoking user, so only JIRA admins can see them.  The command is loaded
+ * when used, the commands import this module.
+ */
+async function showJiraStats(cli: CommandListenerInvocation<NoParameters>): Promise<HandlerResult> {
+    const { getJiraCacheStats } = await import("../commands/cache");
+    return getJiraCacheStats({...cli, parameters: {slackUser: getInvokingChatUserId(cli)}});
+}
+
+/**
+ * @deprecated use getJiraCacheStats, which this now runs (and so is restricted to JIRA admins)
+ */
+export const getJiraStatsHandler = showJiraStats;
+
+/**
+ * @deprecated use the cacheCommands option of jiraSupport, which registers getJiraCacheStatsReg (jira cache stats)
+ */
 export const getJiraStats: CommandHandlerRegistration<NoParameters> = {
     name: "GetJiraStats",
     intent: "jira cache-stats",
-    listener: getJiraStatsHandler,
+    listener: showJiraStats,
 };
@@ -14,35 +14,140 @@
  * limitations under the License.
  */
 
-import { Configuration } from "@atomist/automation-client";
+import {
+    Configuration,
+    logger,
+} from "@atomist/automation-client";
+import { ExpressCustomizer } from "@atomist/automation-client/lib/configuration";
+import * as crypto from "crypto";
+import { isJiraUserCredentialKey } from "../auth/userCredentials";
+import {
+    exposeJiraMetrics,
+    getJiraCacheLookupStats,
+} from "../metrics";
 import {
     flushCache,
     getStats,
+    inspectCacheEntry,
+    invalidateCacheTags,
+    listCacheKeys,
+    purgeCacheEntry,
+    purgeCachePrefix,
+    resetCacheStats,
 } from "./manage";
 
+type RequestHandler = Parameters<ExpressCustomizer>[1];
+type Request = Parameters<RequestHandler>[0];
+type Response = Parameters<RequestHandler>[1];
+
+/**
+ * Adds the JIRA cache admin API and metrics to the SDM's HTTP server.
+ *
+ * GET /jiracache and GET /jirametrics are deliberately unauthenticated, so that monitoring (ie Prometheus) can scrape them
+ * without the API key.  They only report counts and timings, never keys or cached values.  Every other route requires the SDM's
+ * API key in an Authorization header (Authorization: Bearer <apiKey>) and responds with JSON, {success: false, error} on failure:
+ *
+ * GET  /jiracache/keys?prefix=<prefix>    List keys, optionally those starting with prefix
+ * GET  /jiracache/entry?key=<key>         Retrieve an entry and its remaining ttl (seconds, 0 = never expires).  Linked
+ *                                         credentials are never returned
+ * POST /jiracache/purge                   Purge {"key": ""}, {"prefix": ""}, {"tag": ""} or everything with {"all": true}
+ * POST /jiracache/stats/reset             Reset hit and miss counts
+ */
 export const jiraCacheProcessor = async (config: Configuration) => {
     config.http.customizers.push(
         c => {
             c.get("/jiracache", async (req, res) => {
-                res.send(await getStats());
+                res.send({...await getStats(), userIdentity: getJiraCacheLookupStats("convertEmailtoJiraUser")});
             });
 
-            c.post("/jiracache/purge", async (req, res) => {
-                if (req.body.hasOwnProperty("auth")) {
-                    try {
-                        if (req.body.auth === config.apiKey) {
-                            await flushCache();
-                            res.send({success: true});
-                        }
-                    } catch (e) {
-                        res.send({success: false, error: e});
-                    }
+            c.get("/jirametrics", async (req, res) => {
+                res.set("Content-Type", "text/plain; version=0.0.4; charset=utf-8");
+                res.send(exposeJiraMetrics());
+            });
+
+            c.get("/jiracache/keys", adminRoute(config, async (req, res) => {
+                const keys = await listCacheKeys(req.query.prefix);
+                res.send({success: true, keys});
+            }));
+
+            c.get("/jiracache/entry", adminRoute(config, async (req, res) => {
+                if (!req.query.key) {
+                    return sendError(res, 400, "Must supply the key to retrieve");
+                }
+                if (isJiraUserCredentialKey(req.query.key)) {
+                    return sendError(res, 403, "Linked credentials can't be retrieved, purge them instead");
+                }
+                const entry = await inspectCacheEntry(req.query.key);
+                if (!entry) {
+                    return sendError(res, 404, `Key ${req.query.key} not found`);
+                }
+                res.send({success: true, ...entry});
+            }));
+
+            c.post("/jiracache/purge", adminRoute(config, async (req, res) => {
+                const {key, prefix, tag, all} = req.body || {} as any;
+                // Purging everything must be explicit, so a body that is missing or wasn't parsed can't flush the cache
+                if ([key, prefix, tag, all].filter(v => v !== undefined).length !== 1) {
+                    return sendError(res, 400, `Supply one of key, prefix, tag or "all": true`);
+                } else if ([key, prefix, tag].some(v => v !== undefined && (typeof v !== "string" || v.length === 0))) {
+                    return sendError(res, 400, "key, prefix and tag must be non-empty strings");
+                } else if (all !== undefined && all !== true) {
+                    return sendError(res, 400, "all must be true");
+                }
+
+                if (key) {
+                    await purgeCacheEntry(key);
+                } else if (prefix) {
+                    await purgeCachePrefix(prefix);
+                } else if (tag) {
+                    await invalidateCacheTags(tag);
                 } else {
-                    res.send({success: false, error: "Must supply authentication (API Key for this SDM)"});
+                    await flushCache();
                 }
-            });
+                res.send({success: true});
+            }));
+
+            c.post("/jiracache/stats/reset", adminRoute(config, async (req, res) => {
+                await resetCacheStats();
+                res.send({success: true});
+            }));
         },
     );
 
     return config;
 };
+
+/**
+ * Authenticate the request using the API key of this SDM and respond with a JSON error if the handler fails
+ */
+function adminRoute(config: Configuration, handler: (req: Request, res: Response) => Promise<void>): RequestHandler {
+    return async (req, res) => {
+        if (!isAuthorized(config, req)) {
+            return sendError(res, 401, "Must supply the API key for this SDM in the Authorization header, ie Authorization: Bearer <apiKey>");
+        }
+
+        try {
+            await handler(req, res);
+        } catch (e) {
+            logger.error(`JIRA jiraCacheProcessor: ${req.method} ${req.path} failed.  Error => ${e}`);
+            sendError(res, 500, e.message);
+        }
+    };
+}
+
+function isAuthorized(config: Configuration, req: Request): boolean {
+    const header = req.get("Authorization") || "";
+    const match = /^Bearer\s+(.+)$/i.exec(header);
+    // Previous versions of the purge route accepted the API key in the body
+    const supplied = match ? match[1].trim() : (req.body && typeof req.body.auth === "string" ? req.body.auth : undefined);
+    if (!config.apiKey || !supplied) {
+        return false;
+    }
+
+    const expected = crypto.createHash("sha256").update(config.apiKey).digest();
+    return crypto.timingSafeEqual(crypto.createHash("sha256").update(supplied).digest(), expected);
+}
+
+function sendError(res: Response, status: number, error: string): void {
+    res.status(status).send({success: false, error});
+}
@@ -0,0 +1,114 @@
+/*
+ * Copyright © 2019 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import _ = require("lodash");
+
+/**
+ * Applied to every entry about projects (the project list, projects, components and create metadata).  Project webhooks don't
+ * identify the project, so this is invalidated whenever JIRA reports a project has been created, updated or deleted.
+ */
+export const ProjectsCacheTag = "projects";
+
+/**
+ * Applied to every email address known not to belong to a JIRA user.  User webhooks may identify the user but not the
+ * addresses they had, so this is invalidated whenever JIRA reports a user has been created or updated.
+ */
+export const UnmatchedUsersCacheTag = "users:unmatched";
+
+/**
+ * Tag for every cache entry about an issue, ie the issue, its transitions and comments
+ *
+ * @param {string} idOrKey The id (ie 10001) or key (ie PROJ-1) of the issue
+ */
+export function issueCacheTag(idOrKey: string): string {
+    return `issue:${idOrKey}`;
+}
+
+/**
+ * Tag for every cache entry about a project, ie the project, its components and create metadata
+ *
+ * @param {string} idOrKey The id (ie 10000) or key (ie PROJ) of the project
+ */
+export function projectCacheTag(idOrKey: string): string {
+    return `project:${idOrKey}`;
+}
+
+/**
+ * Tag for the email addresses cached as belonging to a JIRA user
+ *
+ * @param {string} key The key of the JIRA user
+ */
+export function userCacheTag(key: string): string {
+    return `user:${key}`;
+}
+
+/**
+ * Tag for the JIRA user (or lack of one) cached for an email address, in every instance
+ *
+ * @param {string} address
+ */
+export function userEmailCacheTag(address: string): string {
+    return `user-email:${address.toLowerCase()}`;
+}
+
+/**
+ * Tag for the cached mappings or preferences of a workspace
+ *
+ * @param {string} workspaceId
+ * @param {string} kind
+ */
+export function workspaceCacheTag(workspaceId: string, kind: "mappings" | "preferences"): string {
+    return `workspace:${workspaceId}:${kind}`;
+}
+
+/**
+ * Determine the issues and projects a JIRA REST url refers to, so the cached response is invalidated along with them
+ *
+ * @param {string} url
+ * @returns {string[]} The tags for this url
+ */
+export function jiraUrlCacheTags(url: string): string[] {
+    const tags: string[] = [];
+    const [path, query] = url.split("?");
+
+    const issue = /\/rest\/api\/\d+\/issue\/([^\/]+)/.exec(path);
+    if (issue && !["createmeta", "picker"].includes(issue[1])) {
+        tags.push(issueCacheTag(decodeURIComponent(issue[1])));
+    }
+
+    const project = /\/rest\/api\/\d+\/project(?:\/([^\/]+))?/.exec(path);
+    if (project) {
+        tags.push(ProjectsCacheTag);
+        if (project[1]) {
+            tags.push(projectCacheTag(decodeURIComponent(project[1])));
+        }
+    } else if (/\/rest\/api\/\d+\/component\//.test(path)) {
+        tags.push(ProjectsCacheTag);
+    }
+
+    if (query) {
+        for (const param of query.split("&")) {
+            const [name, value] = param.split("=");
+            if (["project", "projectIds", "projectKeys"].includes(name) && value) {
+                tags.push(ProjectsCacheTag, ...decodeURIComponent(value).split(",").map(projectCacheTag));
+            } else if (name === "issueId" && value) {
+                tags.push(issueCacheTag(decodeURIComponent(value)));
+            }
+        }
+    }
+
+    return _.uniq(tags);
+}
@@ -0,0 +1,151 @@
+/*
+ * Copyright © 2019 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+    automationClientInstance,
+    AutomationEventListenerSupport,
+    ConfigurationAware,
+    configurationValue,
+    guid,
+    HandlerContext,
+    logger,
+} from "@atomist/automation-client";
+import { lookupJiraProjectDetails } from "../commands/getCurrentChannelMappings";
+import { prepProjectSelect } from "../commands/shared";
+import { JiraProjectMap } from "../helpers/channelLookup";
+import { getJiraInstances } from "../instances";
+import { getJiraCacheConfig } from "./config";
+import {
+    warmJiraMappingCache,
+    warmJiraPreferenceCache,
+} from "./lookup";
+
+/**
+ * The outcome of warming the cache
+ */
+export interface JiraCacheWarmupSummary {
+    instances: number;
+    workspaces: number;
+    mappings: number;
+    preferences: number;
+    projects: number;
+    failures: number;
+    duration: number;
+}
+
+/**
+ * Run tasks with at most concurrency in flight at once.  Failures are logged and counted rather than stopping the other tasks.
+ * @returns {number} The number of tasks that failed
+ */
+async function runBounded(tasks: Array<() => Promise<void>>, concurrency: number): Promise<number> {
+    let next = 0;
+    let failures = 0;
+    const worker = async () => {
+        while (next < tasks.length) {
+            const task = tasks[next++];
+            try {
+                await task();
+            } catch (e) {
+                failures++;
+                logger.warn(`JIRA warmJiraCache: Warm-up task failed => ${e}`);
+            }
+        }
+    };
+    await Promise.all(Array.from({length: Math.max(1, Math.min(concurrency, tasks.length))}, worker));
+    return failures;
+}
+
+/**
+ * The preference store needs a graph client for the workspace, there is no handler context outside of a command or event
+ */
+function warmupContext(workspaceId: string): HandlerContext & ConfigurationAware {
+    const configuration = automationClientInstance().configuration;
+    return {
+        workspaceId,
+        correlationId: guid(),
+        graphClient: configuration.graphql.client.factory.create(workspaceId, configuration),
+        messageClient: undefined,
+        configuration,
+    };
+}
+
+/**
+ * Preload the cache with the project catalogue of every instance (used by project select menus), every channel mapping and
+ * preference in each workspace the SDM is registered with, and the details (including components) of every mapped project.
+ *
+ * @param {number} concurrency Maximum number of lookups in flight at once
+ * @returns {JiraCacheWarmupSummary}
+ */
+export async function warmJiraCache(concurrency: number): Promise<JiraCacheWarmupSummary> {
+    const start = Date.now();
+    const instances = getJiraInstances();
+    const workspaceIds = automationClientInstance().configuration.workspaceIds || [];
+    const summary: JiraCacheWarmupSummary = {
+        instances: instances.length,
+        workspaces: workspaceIds.length,
+        mappings: 0,
+        preferences: 0,
+        projects: 0,
+        failures: 0,
+        duration: 0,
+    };
+
+    const mappedProjects = new Map<string, JiraProjectMap>();
+    summary.failures += await runBounded([
+        ...instances.map(i => async () => {
+            await prepProjectSelect("", undefined, i.name);
+        }),
+        ...workspaceIds.map(w => async () => {
+            const mappings = await warmJiraMappingCache(warmupContext(w));
+            summary.mappings += mappings.length;
+            mappings.filter(m => !!m.projectId).forEach(m =>
+                mappedProjects.set(`${m.instance || ""}:${m.projectId}`, {projectId: m.projectId, instance: m.instance}));
+        }),
+        ...workspaceIds.map(w => async () => {
+            summary.preferences += (await warmJiraPreferenceCache(warmupContext(w))).length;
+        }),
+    ], concurrency);
+
+    summary.failures += await runBounded([...mappedProjects.values()].map(p => async () => {
+        await lookupJiraProjectDetails([p]);
+        summary.projects++;
+    }), concurrency);
+
+    summary.duration = Date.now() - start;
+    return summary;
+}
+
+/**
+ * Warm the cache in the background once the SDM has started, when enabled with sdm.jira.cache.warmup
+ */
+export class JiraCacheWarmupListener extends AutomationEventListenerSupport {
+    public async startupSuccessful(): Promise<void> {
+        const config = getJiraCacheConfig().warmup;
+        if (!config.enabled) {
+            return;
+        }
+        if (!configurationValue<boolean>("sdm.jira.useCache", false)) {
+            logger.warn(`JIRA warmJiraCache: Cache warm-up is enabled but sdm.jira.useCache is not, skipping warm-up`);
+            return;
+        }
+
+        warmJiraCache(config.concurrency)
+            .then(s => logger.info(
+                `JIRA warmJiraCache: Warmed cache in ${s.duration}ms with ${s.instances} project catalogues, ${s.projects} projects, ` +
+                `${s.mappings} mappings and ${s.preferences} preferences across ${s.workspaces} workspaces (${s.failures} failures)`))
+            .catch(e => logger.error(`JIRA warmJiraCache: Cache warm-up failed => ${e}`));
+    }
+}
@@ -0,0 +1,54 @@
+/*
+ * Copyright © 2019 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+    configurationValue,
+    logger,
+} from "@atomist/automation-client";
+import {
+    CommandListenerInvocation,
+    slackErrorMessage,
+} from "@atomist/sdm";
+
+/**
+ * Is the chat user configured as a JIRA admin (sdm.jira.admins)?
+ *
+ * @param {string} chatUserId
+ * @returns {boolean}
+ */
+export function isJiraAdmin(chatUserId: string): boolean {
+    return !!chatUserId && configurationValue<string[]>("sdm.jira.admins", []).includes(chatUserId);
+}
+
+/**
+ * Check the invoking user is a JIRA admin, telling them they can't if not
+ *
+ * @param {CommandListenerInvocation} ci
+ * @param {string} action What only admins can do, ie manage the JIRA cache
+ * @returns {boolean} True if the user is an admin
+ */
+export async function ensureJiraAdmin(ci: CommandListenerInvocation<{slackUser: string}>, action: string): Promise<boolean> {
+    if (isJiraAdmin(ci.parameters.slackUser)) {
+        return true;
+    }
+    logger.warn(`JIRA ensureJiraAdmin: ${ci.parameters.slackUser} is not a JIRA admin`);
+    await ci.addressChannels(slackErrorMessage(
+        `Not Authorized`,
+        `Only JIRA admins can ${action}.  Admins are configured in sdm.jira.admins.`,
+        ci.context,
+    ));
+    return false;
+}
@@ -0,0 +1,184 @@
+/*
+ * Copyright © 2019 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+    HandlerResult,
+    logger,
+    MappedParameter,
+    MappedParameters,
+    Parameter,
+    Parameters,
+} from "@atomist/automation-client";
+import {
+    CommandHandlerRegistration,
+    CommandListenerInvocation,
+    slackErrorMessage,
+    slackSuccessMessage,
+    slackTs,
+} from "@atomist/sdm";
+import * as slack from "@atomist/slack-messages";
+import {
+    flushCache,
+    getStats,
+    invalidateCacheTags,
+} from "../cache/manage";
+import {
+    issueCacheTag,
+    projectCacheTag,
+} from "../cache/tags";
+import { getJiraInstance } from "../instances";
+import {
+    describeJiraError,
+    JiraClient,
+} from "../jiraClient";
+import {
+    Issue,
+    Project,
+} from "../jiraDefs";
+import {
+    getJiraCacheLookupStats,
+    JiraCacheLookupStats,
+} from "../metrics";
+import { ensureJiraAdmin } from "./admin";
+import {
+    JiraHandlerParam,
+    promptForJiraInstance,
+} from "./shared";
+
+@Parameters()
+class JiraCacheAdminParams extends JiraHandlerParam {
+    @MappedParameter(MappedParameters.SlackUser)
+    public slackUser: string;
+}
+
+@Parameters()
+class JiraCachePurgeParams extends JiraCacheAdminParams {
+    @Parameter({
+        displayName: "Issue or project to purge",
+        description: "The key of the issue (ie PROJ-1) or the key or id of the project (ie PROJ) to purge from the cache",
+        pattern: /^[A-Za-z0-9_]+(-\d+)?$/,
+    })
+    public target: string;
+}
+
+/**
+ * Cache commands can expose and disrupt the data of every workspace, only configured admins may run them
+ */
+const CacheAdminAction = "manage the JIRA cache";
+
+function formatHitRate(stats: JiraCacheLookupStats): string {
+    const lookups = stats.hits + stats.misses;
+    return lookups > 0 ? `${(stats.hits / lookups * 100).toFixed(1)}% of ${lookups}` : "n/a";
+}
+
+export async function getJiraCacheStats(ci: CommandListenerInvocation<Pick<JiraCacheAdminParams, "slackUser">>): Promise<HandlerResult> {
+    if (!await ensureJiraAdmin(ci, CacheAdminAction)) {
+        return {code: 0};
+    }
+
+    const stats = await getStats();
+    const userIdentity = getJiraCacheLookupStats("convertEmailtoJiraUser");
+    await ci.addressChannels({
+        attachments: [{
+            fallback: `JIRA Cache Stats`,
+            pretext: `JIRA Cache Stats`,
+            fields: [
+                {title: "Hits", value: `${stats.hits}`, short: true},
+                {title: "Misses", value: `${stats.misses}`, short: true},
+                {title: "Hit Rate", value: formatHitRate(stats), short: true},
+                {title: "Keys", value: `${stats.keys}`, short: true},
+                {title: "Key Size", value: `${stats.ksize}`, short: true},
+                {title: "Value Size", value: `${stats.vsize}`, short: true},
+                {title: "User Identity Hit Rate", value: formatHitRate(userIdentity), short: true},
+            ],
+            ts: slackTs(),
+        }],
+    });
+    return {code: 0};
+}
+
+export const getJiraCacheStatsReg: CommandHandlerRegistration<JiraCacheAdminParams> = {
+    name: "GetJiraCacheStats",
+    description: "Show JIRA cache usage",
+    intent: "jira cache stats",
+    paramsMaker: JiraCacheAdminParams,
+    listener: getJiraCacheStats,
+};
+
+export async function flushJiraCache(ci: CommandListenerInvocation<JiraCacheAdminParams>): Promise<HandlerResult> {
+    if (!await ensureJiraAdmin(ci, CacheAdminAction)) {
+        return {code: 0};
+    }
+
+    await flushCache();
+    await ci.addressChannels(slackSuccessMessage(`JIRA Cache Flushed`, `Removed every entry from the JIRA cache.`));
+    return {code: 0};
+}
+
+export const flushJiraCacheReg: CommandHandlerRegistration<JiraCacheAdminParams> = {
+    name: "FlushJiraCache",
+    description: "Remove every entry from the JIRA cache",
+    intent: "jira cache flush",
+    paramsMaker: JiraCacheAdminParams,
+    listener: flushJiraCache,
+};
+
+/**
+ * Purge everything cached about an issue (details, transitions, comments) or a project (details, components, create metadata).
+ * The issue or project is looked up in JIRA so that entries cached by id and by key are both purged.
+ */
+export async function purgeJiraCache(ci: CommandListenerInvocation<JiraCachePurgeParams>): Promise<HandlerResult> {
+    if (!await ensureJiraAdmin(ci, CacheAdminAction)) {
+        return {code: 0};
+    }
+
+    const jiraConfig = getJiraInstance(await promptForJiraInstance(ci));
+    const target = ci.parameters.target.trim();
+    const isIssue = /^[A-Za-z][A-Za-z0-9_]*-\d+$/.test(target);
+    let description: string;
+    let tags: string[];
+    try {
+        if (isIssue) {
+            const issue = await new JiraClient(ci).get<Issue>(`${jiraConfig.apiUrl}/issue/${encodeURIComponent(target)}?fields=summary`);
+            description = `issue ${slack.url(`${jiraConfig.url}/browse/${issue.key}`, issue.key)}`;
+            tags = [issueCacheTag(issue.id), issueCacheTag(issue.key)];
+        } else {
+            const project = await new JiraClient(ci).get<Project>(`${jiraConfig.apiUrl}/project/${encodeURIComponent(target)}`);
+            description = `project *${project.name}*`;
+            tags = [projectCacheTag(project.id), projectCacheTag(project.key)];
+        }
+    } catch (e) {
+        logger.error(`JIRA purgeJiraCache: Failed to find ${target}.  Error => ${e}`);
+        await ci.addressChannels(slackErrorMessage(
+            `Failed to Purge JIRA Cache`,
+            `Could not find the ${isIssue ? "issue" : "project"} ${target}.\n${describeJiraError(e)}`,
+            ci.context,
+        ));
+        return {code: 0};
+    }
+
+    await invalidateCacheTags(...tags);
+    await ci.addressChannels(slackSuccessMessage(`JIRA Cache Purged`, `Removed cached details of ${description}.`));
+    return {code: 0};
+}
+
+export const purgeJiraCacheReg: CommandHandlerRegistration<JiraCachePurgeParams> = {
+    name: "PurgeJiraCache",
+    description: "Remove an issue or project from the JIRA cache",
+    intent: "jira cache purge",
+    paramsMaker: JiraCachePurgeParams,
+    listener: purgeJiraCache,
+};
@@ -25,13 +25,16 @@ import {
     Parameter,
     Parameters,
 } from "@atomist/automation-client";
+import { Option } from "@atomist/automation-client/lib/metadata/automationMetadata";
 import {
     CommandHandlerRegistration,
     CommandListenerInvocation,
+    slackErrorMessage,
     slackSuccessMessage,
     slackTs,
 } from "@atomist/sdm";
 import { SlackMessage } from "@atomist/slack-messages";
+import _ = require("lodash");
 import * as objectHash from "object-hash";
 import * as types from "../../typings/types";
 import {
@@ -40,6 +43,11 @@ import {
     JiraPreference,
 } from "../cache/lookup";
 import { purgeCacheEntry } from "../cache/manage";
+import { validateJqlFilter } from "../helpers/jqlFilter";
+import { issueTypeKey } from "../helpers/notifyPrefs";
+import { resolveJiraInstanceName } from "../instances";
+import { describeJiraError } from "../jiraClient";
+import { lookupJiraProjectDetails } from "./getCurrentChannelMappings";
 
 @Parameters()
 class JiraChannelPrefsBase {
@@ -91,61 +99,112 @@ class JiraChannelPrefs extends JiraChannelPrefsBase {
 
     @Parameter({
         pattern: /^(true|false)$/,
-        description: "Receive Notifications from Bug Issue Type?",
-        displayName: "Receive Notifications from Bug Issue Type?",
+        description: "Reply to Issues in a thread with new comments and changes?",
+        displayName: "Reply to Issues in a thread with new comments and changes?",
         type: "boolean",
     })
-    public bug: boolean;
+    public threaded: boolean;
+}
 
+@Parameters()
+class JiraChannelFilterParams extends JiraChannelPrefsBase {
     @Parameter({
-        pattern: /^(true|false)$/,
-        description: "Receive Notifications from Task Issue Type?",
-        displayName: "Receive Notifications from Task Issue Type?",
-        type: "boolean",
+        description: "JQL clause issues must match to notify this channel, ie priority in (Blocker, Critical).  Leave empty to remove the filter",
+        displayName: "JQL filter",
+        required: false,
     })
-    public task: boolean;
+    public jql: string;
+}
 
+@Parameters()
+class JiraChannelFieldsParams extends JiraChannelPrefsBase {
     @Parameter({
-        pattern: /^(true|false)$/,
-        description: "Receive Notifications from Epic Issue Type?",
-        displayName: "Receive Notifications from Epic Issue Type?",
-        type: "boolean",
+        description: "Only notify changes to these fields, comma separated, ie status, assignee, priority.  Leave empty to notify all fields",
+        displayName: "Fields to notify",
+        required: false,
     })
-    public epic: boolean;
+    public allowedFields: string;
 
     @Parameter({
-        pattern: /^(true|false)$/,
-        description: "Receive Notifications from Sub-task Issue Type?",
-        displayName: "Receive Notifications from Sub-task Issue Type?",
-        type: "boolean",
+        description: "Never notify changes to these fields, comma separated, ie Rank, description.  Only used if no fields to notify are set",
+        displayName: "Fields to ignore",
+        required: false,
     })
-    public subtask: boolean;
+    public ignoredFields: string;
+}
 
-    @Parameter({
-        pattern: /^(true|false)$/,
-        description: "Receive Notifications from Story Issue Type?",
-        displayName: "Receive Notifications from Story Issue Type?",
-        type: "boolean",
-    })
-    public story: boolean;
+/**
+ * Issue types offered when the channel isn't mapped to any projects, ie it is only notified through linked repositories
+ */
+const StandardIssueTypes = ["Bug", "Task", "Epic", "Story", "Sub-task"];
+
+/**
+ * Prompt for the issue types to notify, offering the issue types of every project mapped to the channel
+ *
+ * @param {CommandListenerInvocation} ci
+ * @param {{[issueType: string]: boolean}} current The channel's current issue type preferences
+ * @returns {{[issueType: string]: boolean}} The updated issue type preferences
+ */
+async function promptForIssueTypes(
+    ci: CommandListenerInvocation<JiraChannelPrefsBase>,
+    current: {[issueType: string]: boolean},
+): Promise<{[issueType: string]: boolean}> {
+    let names = StandardIssueTypes;
+    try {
+        const mappings = await cachedJiraMappingLookup(ci.context, {channel: ci.parameters.slackChannelName});
+        const projects = _.uniqBy(mappings.filter(m => !!m.projectId), m => `${m.instance || ""}:${m.projectId}`);
+        if (projects.length > 0) {
+            const details = await lookupJiraProjectDetails(projects.map(m => ({projectId: m.projectId, instance: m.instance})), ci);
+            names = _.flatten(details.map(d => (d.issueTypes || []).map(t => t.name)));
+        }
+    } catch (e) {
+        logger.warn(`JIRA promptForIssueTypes: Failed to lookup issue types of mapped projects, offering standard types.  Error => ${e}`);
+    }
+
+    // Issue types that were set before (but no longer belong to a mapped project) are still offered, so they can be changed
+    const options: Option[] = _.uniqBy([
+        ...names.map(n => ({description: n, value: issueTypeKey(n)})),
+        ...Object.keys(current).map(k => ({description: k, value: k})),
+    ], "value");
+    const answer = await ci.promptFor<{issueTypes: string | string[]}>({
+        issueTypes: {
+            displayName: "Receive Notifications from which Issue Types?",
+            description: "Receive Notifications from which Issue Types?",
+            required: false,
+            type: {
+                kind: "multiple",
+                options,
+            },
+        },
+    });
+
+    const selected = _.castArray(answer.issueTypes || []);
+    return {
+        ...current,
+        ..._.fromPairs(options.map(o => [o.value, selected.includes(o.value)])),
+    };
 }
 
 export async function setJiraChannelPrefs(
     ci: CommandListenerInvocation<JiraChannelPrefs>,
     ): Promise<HandlerResult> {
 
-    const payload = {
+    // The filter and fields are set separately, with jira set filter and jira set fields
+    const current = await cachedJiraPreferenceLookup(ci.context, ci.parameters.slackChannelName);
+    const issueTypes = await promptForIssueTypes(ci, current ? mungeJiraPrefs(current).issueTypes : {});
+    const payload: JiraPreference = {
         channel: ci.parameters.slackChannelName,
         issueCreated: ci.parameters.issueCreated,
         issueComment: ci.parameters.issueCommented,
         issueDeleted: ci.parameters.issueDeleted,
         issueStatus: ci.parameters.issueStatus,
         issueState: ci.parameters.issueState,
-        bug: ci.parameters.bug,
-        task: ci.parameters.task,
-        epic: ci.parameters.epic,
-        story: ci.parameters.story,
-        subtask: ci.parameters.subtask,
+        issueTypes,
+        otherIssueTypes: true,
+        threaded: ci.parameters.threaded,
+        jql: current ? current.jql : undefined,
+        allowedFields: current ? current.allowedFields : undefined,
+        ignoredFields: current ? current.ignoredFields : undefined,
     };
 
     const key = `${ci.context.workspaceId}-preferences-${ci.parameters.slackChannelName}`;
@@ -168,7 +227,101 @@ export const setJiraChannelPrefsReg: CommandHandlerRegistration<JiraChannelPrefs
 };
 
 /**
- * For supplied preferences, if there is data missing automatically set that missing preference to true
+ * Set (or remove) the JQL filter of this channel, leaving the rest of its preferences as they are.  The filter is checked with
+ * each JIRA instance mapped to the channel (or the default instance if none are) before it is saved.
+ */
+export async function setJiraChannelFilter(
+    ci: CommandListenerInvocation<JiraChannelFilterParams>,
+): Promise<HandlerResult> {
+    const jql = (ci.parameters.jql || "").trim();
+    if (jql.length > 0) {
+        const mappings = await cachedJiraMappingLookup(ci.context, {channel: ci.parameters.slackChannelName});
+        const instances = _.uniq(mappings.map(m => resolveJiraInstanceName(m.instance)));
+        for (const instance of instances.length > 0 ? instances : [resolveJiraInstanceName()]) {
+            try {
+                await validateJqlFilter(jql, ci, instance);
+            } catch (e) {
+                logger.error(`JIRA setJiraChannelFilter: Filter ${jql} rejected by ${instance}.  Error => ${e}`);
+                await ci.addressChannels(slackErrorMessage(
+                    `Invalid JIRA Filter`,
+                    `JIRA${instances.length > 1 ? ` (${instance})` : ""} could not search with the filter \`${jql}\`.\n${describeJiraError(e)}`,
+                    ci.context,
+                ));
+                return { code: 0 };
+            }
+        }
+    }
+
+    const prefs = await queryJiraChannelPrefs(ci.context, ci.parameters.slackChannelName);
+    const key = `${ci.context.workspaceId}-preferences-${ci.parameters.slackChannelName}`;
+    await ci.preferences.put(key, {...prefs, jql: jql.length > 0 ? jql : undefined}, {scope: "JIRAPreferences"});
+    await purgeCacheEntry(key);
+    await ci.addressChannels(slackSuccessMessage(
+        `Updated JIRA notification filter for channel ${ci.parameters.slackChannelName}`,
+        jql.length > 0 ?
+            `Only issues matching \`${jql}\` will be notified in this channel.` :
+            `Removed the filter, all issues will be notified in this channel.`,
+    ));
+
+    return { code: 0 };
+}
+
+export const setJiraChannelFilterReg: CommandHandlerRegistration<JiraChannelFilterParams> = {
+    name: "SetJiraChannelFilter",
+    description: "Set a JQL filter issues must match to notify this channel",
+    intent: "jira set filter",
+    paramsMaker: JiraChannelFilterParams,
+    listener: setJiraChannelFilter,
+};
+
+/**
+ * Set the fields whose changes notify this channel (or are ignored), leaving the rest of its preferences as they are
+ */
+export async function setJiraChannelFields(
+    ci: CommandListenerInvocation<JiraChannelFieldsParams>,
+): Promise<HandlerResult> {
+    const split = (fields: string) => (fields || "").split(",").map(f => f.trim()).filter(f => f.length > 0);
+    const allowedFields = split(ci.parameters.allowedFields);
+    const ignoredFields = split(ci.parameters.ignoredFields);
+    if (allowedFields.length > 0 && ignoredFields.length > 0) {
+        await ci.addressChannels(slackErrorMessage(
+            `Invalid JIRA Fields`,
+            `Choose either the fields to notify or the fields to ignore, not both.`,
+            ci.context,
+        ));
+        return { code: 0 };
+    }
+
+    const prefs = await queryJiraChannelPrefs(ci.context, ci.parameters.slackChannelName);
+    const key = `${ci.context.workspaceId}-preferences-${ci.parameters.slackChannelName}`;
+    await ci.preferences.put(key, {
+        ...prefs,
+        allowedFields: allowedFields.length > 0 ? allowedFields : undefined,
+        ignoredFields: ignoredFields.length > 0 ? ignoredFields : undefined,
+    }, {scope: "JIRAPreferences"});
+    await purgeCacheEntry(key);
+    await ci.addressChannels(slackSuccessMessage(
+        `Updated JIRA notification fields for channel ${ci.parameters.slackChannelName}`,
+        allowedFields.length > 0 ? `Only changes to ${allowedFields.join(", ")} will be notified in this channel.` :
+            ignoredFields.length > 0 ? `Changes to ${ignoredFields.join(", ")} will not be notified in this channel.` :
+                `Changes to all fields will be notified in this channel.`,
+    ));
+
+    return { code: 0 };
+}
+
+export const setJiraChannelFieldsReg: CommandHandlerRegistration<JiraChannelFieldsParams> = {
+    name: "SetJiraChannelFields",
+    description: "Choose which field changes notify this channel",
+    intent: "jira set fields",
+    paramsMaker: JiraChannelFieldsParams,
+    listener: setJiraChannelFields,
+};
+
+/**
+ * For supplied preferences, if there is data missing automatically set that missing preference to true (or false for threaded,
+ * which was added later and changes how notifications look).  The issue type flags of preferences stored before issueTypes are
+ * migrated to issueTypes, and as those preferences only notified the standard issue types other issue types are not notified.
  *
  * @param {JiraPreference} prefs
  * @returns {JiraPreference}
@@ -182,11 +335,15 @@ export function mungeJiraPrefs(prefs: JiraPreference): JiraPreference {
         issueCreated: a(prefs.issueCreated),
         issueState: a(prefs.issueState),
         issueStatus: a(prefs.issueStatus),
-        bug: a(prefs.bug),
-        task: a(prefs.task),
-        epic: a(prefs.epic),
-        story: a(prefs.story),
-        subtask: a(prefs.subtask),
+        issueTypes: {
+            ..._.omitBy({bug: prefs.bug, task: prefs.task, epic: prefs.epic, story: prefs.story, subtask: prefs.subtask}, _.isUndefined),
+            ...prefs.issueTypes,
+        },
+        otherIssueTypes: prefs.issueTypes !== undefined && prefs.otherIssueTypes !== false,
+        threaded: prefs.threaded === true,
+        jql: prefs.jql,
+        allowedFields: prefs.allowedFields,
+        ignoredFields: prefs.ignoredFields,
     };
 }
 
@@ -207,16 +364,30 @@ export const queryJiraChannelPrefs = async (
             issueCreated: true,
             issueState: false,
             issueStatus: false,
-            bug: true,
-            task: true,
-            epic: true,
-            story: true,
-            subtask: true,
+            issueTypes: {},
+            otherIssueTypes: true,
+            threaded: false,
         };
     }
     return setPrefs;
 };
 
+function describeFields(prefs: JiraPreference): string {
+    if (prefs.allowedFields && prefs.allowedFields.length > 0) {
+        return `Only ${prefs.allowedFields.join(", ")}`;
+    }
+    return prefs.ignoredFields && prefs.ignoredFields.length > 0 ? `All except ${prefs.ignoredFields.join(", ")}` : "All";
+}
+
+function describeIssueTypes(prefs: JiraPreference): string {
+    if (prefs.otherIssueTypes === false) {
+        const enabled = Object.keys(prefs.issueTypes).filter(t => prefs.issueTypes[t] === true).sort();
+        return enabled.length > 0 ? `Only ${enabled.join(", ")}` : "None";
+    }
+    const disabled = Object.keys(prefs.issueTypes).filter(t => prefs.issueTypes[t] === false).sort();
+    return disabled.length > 0 ? `All except ${disabled.join(", ")}` : "All";
+}
+
 export async function getJiraChannelPrefs(
     ci: CommandListenerInvocation<JiraChannelPrefsBase>,
 ): Promise<HandlerResult> {
@@ -253,28 +424,29 @@ export async function getJiraChannelPrefs(
                             value: prefs.issueState.toString(),
                         },
                         {
-                            title: "Bug Issue Type?",
-                            value: prefs.bug.toString(),
-                        },
-                        {
-                            title: "Task Issue Type?",
-                            value: prefs.task.toString(),
+                            title: "Issue Types",
+                            value: describeIssueTypes(prefs),
                         },
                         {
-                            title: "Epic Issue Type?",
-                            value: prefs.epic.toString(),
+                            title: "Threaded?",
+                            value: prefs.threaded.toString(),
                         },
                         {
-                            title: "Story Issue Type?",
-                            value: prefs.story.toString(),
+                            title: "Changed Fields",
+                            value: describeFields(prefs),
                         },
                         {
-                            title: "Sub-task Issue Type?",
-                            value: prefs.subtask.toString(),
+                            title: "Filter",
+                            value: prefs.jql ? `\`${prefs.jql}\`` : "None",
                         },
                     ],
                     actions: [
                         buttonForCommand({ text: "Update Preferences"}, "SetJiraChannelPrefs"),
+                        buttonForCommand({ text: "Set Filter"}, "SetJiraChannelFilter", { jql: prefs.jql }),
+                        buttonForCommand({ text: "Set Fields"}, "SetJiraChannelFields", {
+                            allowedFields: (prefs.allowedFields || []).join(", "),
+                            ignoredFields: (prefs.ignoredFields || []).join(", "),
+                        }),
                     ],
                     ts: slackTs(),
                 },
@@ -0,0 +1,103 @@
+/*
+ * Copyright © 2019 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+    HandlerResult,
+    MappedParameter,
+    MappedParameters,
+    Parameter,
+    Parameters,
+} from "@atomist/automation-client";
+import {
+    CommandHandlerRegistration,
+    CommandListenerInvocation,
+    slackSuccessMessage,
+} from "@atomist/sdm";
+import { JiraUserPreference } from "../cache/lookup";
+import { purgeCacheEntry } from "../cache/manage";
+
+@Parameters()
+class JiraUserPrefs {
+    @MappedParameter(MappedParameters.SlackUser)
+    public slackUser: string;
+
+    @MappedParameter(MappedParameters.SlackUserName)
+    public screenName: string;
+
+    @Parameter({
+        pattern: /^(true|false)$/,
+        description: "Receive a direct message when you are assigned an Issue?",
+        displayName: "Receive a direct message when you are assigned an Issue?",
+        type: "boolean",
+    })
+    public issueAssigned: boolean;
+
+    @Parameter({
+        pattern: /^(true|false)$/,
+        description: "Receive a direct message when Issues you are assigned, reported or watch are commented on?",
+        displayName: "Receive a direct message when Issues you are assigned, reported or watch are commented on?",
+        type: "boolean",
+    })
+    public issueCommented: boolean;
+
+    @Parameter({
+        pattern: /^(true|false)$/,
+        description: "Receive a direct message when Issues you are assigned, reported or watch are transitioned?",
+        displayName: "Receive a direct message when Issues you are assigned, reported or watch are transitioned?",
+        type: "boolean",
+    })
+    public issueStatus: boolean;
+}
+
+/**
+ * Opt in (or out) of direct messages about the issues the invoking user is assigned, has reported or is watching.  Users are matched
+ * to JIRA by email address, so the email address of their chat user must be the one they use in JIRA.
+ */
+export async function setJiraUserPrefs(ci: CommandListenerInvocation<JiraUserPrefs>): Promise<HandlerResult> {
+    const payload: JiraUserPreference = {
+        chatUserId: ci.parameters.slackUser,
+        screenName: ci.parameters.screenName,
+        issueAssigned: ci.parameters.issueAssigned,
+        issueComment: ci.parameters.issueCommented,
+        issueStatus: ci.parameters.issueStatus,
+    };
+
+    const key = `${ci.context.workspaceId}-user-preferences-${ci.parameters.slackUser}`;
+    await ci.preferences.put(key, payload, {scope: "JIRAUserPreferences"});
+    await purgeCacheEntry(key);
+
+    const enabled = [
+        ...(payload.issueAssigned ? [`\u{2022} You are assigned an issue`] : []),
+        ...(payload.issueComment ? [`\u{2022} An issue you are assigned, reported or watch is commented on`] : []),
+        ...(payload.issueStatus ? [`\u{2022} An issue you are assigned, reported or watch is transitioned`] : []),
+    ];
+    await ci.addressChannels(slackSuccessMessage(
+        `Updated JIRA notification preferences for ${ci.parameters.screenName}`,
+        enabled.length > 0 ?
+            `You will receive a direct message when:\n${enabled.join("\n")}` :
+            `You will not receive direct messages about JIRA issues.`,
+    ));
+
+    return { code: 0 };
+}
+
+export const setJiraUserPrefsReg: CommandHandlerRegistration<JiraUserPrefs> = {
+    name: "SetJiraUserPrefs",
+    description: "Choose the direct messages you receive about JIRA issues you are assigned, reported or watch",
+    intent: "jira notify me",
+    paramsMaker: JiraUserPrefs,
+    listener: setJiraUserPrefs,
+};
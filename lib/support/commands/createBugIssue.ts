@@ -15,7 +15,6 @@
  */
 
 import {
-    configurationValue,
     HandlerResult,
     logger,
     MappedParameter,
@@ -29,16 +28,27 @@ import {
     slackErrorMessage,
 } from "@atomist/sdm";
 import * as slack from "@atomist/slack-messages";
-import * as jira2slack from "jira2slack";
-import { JiraConfig } from "../../jira";
 import * as types from "../../typings/types";
 import { getMappedComponentsbyChannel } from "../helpers/channelLookup";
+import {
+    findMissingRequiredFields,
+    getJiraCreateMeta,
+    JiraCreateMetaFields,
+    promptForRequiredFields,
+} from "../helpers/createMeta";
+import { getJiraInstance } from "../instances";
 import { getJiraDetails } from "../jiraDataLookup";
 import { Project } from "../jiraDefs";
-import { convertEmailtoJiraUser } from "../shared";
 import {
-    createJiraTicket,
+    buildJiraUserField,
+    convertEmailtoJiraUser,
+    convertSlackToJiraText,
+} from "../shared";
+import {
     JiraHandlerParam,
+    reportJiraError,
+    reportJiraWriteQueued,
+    submitJiraTicket,
 } from "./shared";
 
 @Parameters()
@@ -48,17 +58,16 @@ class JiraProjectLookup extends JiraHandlerParam {
 }
 
 export async function createBugIssue(ci: CommandListenerInvocation<JiraProjectLookup>): Promise<HandlerResult> {
-    const jiraConfig = configurationValue<object>("sdm.jira") as JiraConfig;
     const components = await getMappedComponentsbyChannel(ci.context, ci.parameters.slackChannelName);
 
     const componentOptions: Option[] = [];
     await Promise.all(
         components.map(async c => {
         // Get Search pattern for project lookup
-        const lookupUrl = `${jiraConfig.url}/rest/api/2/project/${c.projectId}`;
-        const project = await getJiraDetails<Project>(lookupUrl, true, 30, ci);
+        const lookupUrl = `${getJiraInstance(c.instance).apiUrl}/project/${c.projectId}`;
+        const project = await getJiraDetails<Project>(lookupUrl, true, 30, ci, [], "project");
         const comp = project.components.filter(nc => nc.id === c.componentId)[0];
-        componentOptions.push({description: `${project.name}/${comp.name}`, value: `${comp.id}:${project.id}`});
+        componentOptions.push({description: `${project.name}/${comp.name}`, value: `${comp.id}:${project.id}:${c.instance || ""}`});
          }),
     );
 
@@ -100,11 +109,28 @@ export async function createBugIssue(ci: CommandListenerInvocation<JiraProjectLo
             },
         });
 
+        const jiraConfig = getJiraInstance(scomp.component.split(":")[2] || undefined);
+
+        // Prompt for any other fields this project requires for bugs (ie custom fields)
+        let requiredFields: JiraCreateMetaFields;
+        let customFields: {[fieldId: string]: any};
+        try {
+            const createMeta = await getJiraCreateMeta(scomp.component.split(":")[1], "Bug", ci, jiraConfig.name);
+            requiredFields = createMeta.fields;
+            customFields = await promptForRequiredFields(
+                ci, createMeta.projectKey, createMeta.fields, ["project", "issuetype", "components", "summary", "description"], jiraConfig.name);
+        } catch (e) {
+            return reportJiraError(ci, `Error Creating JIRA Bug Issue`, e, {
+                ttl: 60 * 1000,
+                id: `createJiraIssue-${ci.parameters.screenName}`,
+            });
+        }
+
         // We've got all the data, create issue
         let data: any;
         try {
             data = {
-                description: jira2slack.toJira(details.description),
+                description: convertSlackToJiraText(details.description, jiraConfig.name),
                 project: {
                     id: scomp.component.split(":")[1],
                 },
@@ -117,6 +143,7 @@ export async function createBugIssue(ci: CommandListenerInvocation<JiraProjectLo
                 issuetype: {
                     name: "Bug",
                 },
+                ...customFields,
             };
 
             // Lookup requester
@@ -133,7 +160,7 @@ export async function createBugIssue(ci: CommandListenerInvocation<JiraProjectLo
             ) {
                 // Try to find requester
                 await Promise.all(requester.ChatId[0].person.emails.map(async e => {
-                    const res = await convertEmailtoJiraUser(e.address);
+                    const res = await convertEmailtoJiraUser(e.address, jiraConfig.name);
                     if (res) {
                         realRequester = res;
                     }
@@ -144,9 +171,7 @@ export async function createBugIssue(ci: CommandListenerInvocation<JiraProjectLo
                 data = {
                     ...data,
                     ...{
-                        reporter: {
-                            name: realRequester,
-                        },
+                        reporter: buildJiraUserField(realRequester, jiraConfig.name),
                     },
                 };
             }
@@ -164,30 +189,40 @@ export async function createBugIssue(ci: CommandListenerInvocation<JiraProjectLo
             return {code: 1, message: e};
         }
 
-        // Submit new issue
-        try {
-            const res = await createJiraTicket({fields: data}, ci);
-            await ci.addressChannels(`Created new JIRA Bug issue successfully!` +
-                `Link: ${slack.url(jiraConfig.url + `/browse/` + res.key, res.key)}`, {
-                ttl: 60 * 1000,
-                id: `createJiraIssue-${ci.parameters.screenName}`,
-            });
-            return {code: 0};
-        } catch (e) {
-            logger.error(e);
+        const missing = findMissingRequiredFields(requiredFields, data);
+        if (missing.length > 0) {
             await ci.addressChannels(
                 slackErrorMessage(
                     `Error Creating JIRA Bug Issue`,
-                    `Failed to create JIRA issue; error => ${e}`,
+                    `The following required fields were not supplied: ${missing.join(", ")}`,
                     ci.context,
                 ), {
                     ttl: 60 * 1000,
                     id: `createJiraIssue-${ci.parameters.screenName}`,
                 });
-            return {
-                code: 1,
-                message: e,
-            };
+            return {code: 1, message: `Missing required fields`};
+        }
+
+        // Submit new issue
+        try {
+            const res = await submitJiraTicket({fields: data}, `Create JIRA bug *${data.summary}*`, ci, jiraConfig.name);
+            if (res.queued) {
+                return reportJiraWriteQueued(ci, `JIRA Bug Issue Queued`, {
+                    ttl: 60 * 1000,
+                    id: `createJiraIssue-${ci.parameters.screenName}`,
+                });
+            }
+            await ci.addressChannels(`Created new JIRA Bug issue successfully!` +
+                `Link: ${slack.url(jiraConfig.url + `/browse/` + res.result.key, res.result.key)}`, {
+                ttl: 60 * 1000,
+                id: `createJiraIssue-${ci.parameters.screenName}`,
+            });
+            return {code: 0};
+        } catch (e) {
+            return reportJiraError(ci, `Error Creating JIRA Bug Issue`, e, {
+                ttl: 60 * 1000,
+                id: `createJiraIssue-${ci.parameters.screenName}`,
+            });
         }
     }
 }
@@ -15,7 +15,6 @@
  */
 
 import {
-    configurationValue,
     HandlerResult,
     logger,
     MappedParameter,
@@ -30,16 +29,27 @@ import {
     slackErrorMessage,
 } from "@atomist/sdm";
 import * as slack from "@atomist/slack-messages";
-import * as jira2slack from "jira2slack";
-import { JiraConfig } from "../../jira";
 import * as types from "../../typings/types";
+import {
+    findMissingRequiredFields,
+    getJiraCreateMeta,
+    JiraCreateMetaFields,
+    promptForRequiredFields,
+} from "../helpers/createMeta";
+import { getJiraInstance } from "../instances";
 import { getJiraDetails } from "../jiraDataLookup";
 import * as jiraTypes from "../jiraDefs";
-import { convertEmailtoJiraUser } from "../shared";
 import {
-    createJiraTicket,
+    convertEmailtoJiraUser,
+    convertSlackToJiraText,
+} from "../shared";
+import {
     JiraHandlerParam,
     prepProjectSelect,
+    promptForJiraInstance,
+    reportJiraError,
+    reportJiraWriteQueued,
+    submitJiraTicket,
 } from "./shared";
 
 @Parameters()
@@ -55,7 +65,6 @@ class JiraProjectLookup extends JiraHandlerParam {
 }
 
 export async function createIssue(ci: CommandListenerInvocation<JiraProjectLookup>): Promise<HandlerResult> {
-    const jiraConfig = configurationValue<object>("sdm.jira") as JiraConfig;
     if (ci.parameters.slackChannel === ci.parameters.slackChannelName) {
         await ci.addressChannels(slackErrorMessage(
             `Cannot Setup Mapping to Individual Account`,
@@ -65,9 +74,12 @@ export async function createIssue(ci: CommandListenerInvocation<JiraProjectLooku
         return {code: 0};
     }
 
+    // Select the JIRA instance (only prompts when more than one is configured)
+    const jiraConfig = getJiraInstance(await promptForJiraInstance(ci));
+
     // Present list of projects
     let project: { project: string };
-    const projectValues = await prepProjectSelect(ci.parameters.projectSearch, ci);
+    const projectValues = await prepProjectSelect(ci.parameters.projectSearch, ci, jiraConfig.name);
     if (projectValues) {
         project = await ci.promptFor<{ project: string }>({
             project: {
@@ -91,7 +103,7 @@ export async function createIssue(ci: CommandListenerInvocation<JiraProjectLooku
     // Now we have the project
     // Get Issue Types
     const availIssueTypes =
-        await getJiraDetails<jiraTypes.Project>(`${jiraConfig.url}/rest/api/2/project/${project.project}`, true, undefined, ci);
+        await getJiraDetails<jiraTypes.Project>(`${jiraConfig.apiUrl}/project/${project.project}`, true, undefined, ci, [], "project");
     const issueOptions: Option[] = [];
     availIssueTypes.issueTypes.forEach(t => {
         issueOptions.push({
@@ -138,11 +150,26 @@ export async function createIssue(ci: CommandListenerInvocation<JiraProjectLooku
         },
     });
 
+    // Prompt for any other fields this project requires for this issue type (ie custom fields)
+    let requiredFields: JiraCreateMetaFields;
+    let customFields: {[fieldId: string]: any};
+    try {
+        const createMeta = await getJiraCreateMeta(project.project, issueType.issueType, ci, jiraConfig.name);
+        requiredFields = createMeta.fields;
+        customFields = await promptForRequiredFields(
+            ci, createMeta.projectKey, createMeta.fields, ["project", "issuetype", "parent", "summary", "description"], jiraConfig.name);
+    } catch (e) {
+        return reportJiraError(ci, `Error Creating JIRA Issue`, e, {
+            ttl: 60 * 1000,
+            id: `createJiraIssue-${ci.parameters.screenName}`,
+        });
+    }
+
     // We've got all the data, create issue
     let data: any;
     try {
         data = {
-            description: jira2slack.toJira(details.description),
+            description: convertSlackToJiraText(details.description, jiraConfig.name),
             project: {
                 id: project.project,
             },
@@ -150,6 +177,7 @@ export async function createIssue(ci: CommandListenerInvocation<JiraProjectLooku
             issuetype: {
                 name: issueType.issueType,
             },
+            ...customFields,
         };
 
         // Add parent, if present
@@ -179,7 +207,7 @@ export async function createIssue(ci: CommandListenerInvocation<JiraProjectLooku
         ) {
             // Try to find requester
             await Promise.all(requester.ChatId[0].person.emails.map(async e => {
-                const res = await convertEmailtoJiraUser(e.address);
+                const res = await convertEmailtoJiraUser(e.address, jiraConfig.name);
                 if (res) {
                     realRequester = res;
                 }
@@ -210,29 +238,39 @@ export async function createIssue(ci: CommandListenerInvocation<JiraProjectLooku
         return { code: 1, message: e };
     }
 
-    // Submit new issue
-    try {
-        const res = await createJiraTicket({fields: data}, ci);
-        await ci.addressChannels(`Created new JIRA issue successfully! Link: ${slack.url(jiraConfig.url + `/browse/` + res.key, res.key)}`, {
-            ttl: 60 * 1000,
-            id: `createJiraIssue-${ci.parameters.screenName}`,
-        });
-        return {code: 0};
-    } catch (e) {
-        logger.error(e);
+    const missing = findMissingRequiredFields(requiredFields, data);
+    if (missing.length > 0) {
         await ci.addressChannels(
             slackErrorMessage(
                 `Error Creating JIRA Issue`,
-                `Failed to create JIRA issue; error => ${e}`,
+                `The following required fields were not supplied: ${missing.join(", ")}`,
                 ci.context,
             ), {
                 ttl: 60 * 1000,
                 id: `createJiraIssue-${ci.parameters.screenName}`,
             });
-        return {
-            code: 1,
-            message: e,
-        };
+        return {code: 1, message: `Missing required fields`};
+    }
+
+    // Submit new issue
+    try {
+        const res = await submitJiraTicket({fields: data}, `Create JIRA issue *${data.summary}*`, ci, jiraConfig.name);
+        if (res.queued) {
+            return reportJiraWriteQueued(ci, `JIRA Issue Queued`, {
+                ttl: 60 * 1000,
+                id: `createJiraIssue-${ci.parameters.screenName}`,
+            });
+        }
+        await ci.addressChannels(`Created new JIRA issue successfully! Link: ${slack.url(jiraConfig.url + `/browse/` + res.result.key, res.result.key)}`, {
+            ttl: 60 * 1000,
+            id: `createJiraIssue-${ci.parameters.screenName}`,
+        });
+        return {code: 0};
+    } catch (e) {
+        return reportJiraError(ci, `Error Creating JIRA Issue`, e, {
+            ttl: 60 * 1000,
+            id: `createJiraIssue-${ci.parameters.screenName}`,
+        });
     }
 }
 
@@ -0,0 +1,78 @@
+/*
+ * Copyright © 2019 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+    HandlerResult,
+    logger,
+    MappedParameter,
+    MappedParameters,
+    Parameters,
+} from "@atomist/automation-client";
+import {
+    CommandHandlerRegistration,
+    CommandListenerInvocation,
+    slackTs,
+} from "@atomist/sdm";
+import * as slack from "@atomist/slack-messages";
+import { runJiraDoctor } from "../doctor";
+import { ensureJiraAdmin } from "./admin";
+
+@Parameters()
+class JiraDoctorParams {
+    @MappedParameter(MappedParameters.SlackUser)
+    public slackUser: string;
+}
+
+/**
+ * Run the configuration checks and report the results.  The report describes the configuration of every instance, so only
+ * JIRA admins may run it.
+ */
+export async function jiraDoctor(ci: CommandListenerInvocation<JiraDoctorParams>): Promise<HandlerResult> {
+    if (!await ensureJiraAdmin(ci, "run the JIRA configuration checks")) {
+        return {code: 0};
+    }
+
+    const checks = await runJiraDoctor();
+    const healthy = checks.every(c => c.ok);
+    logger.debug(`JIRA jiraDoctor: Results => ${JSON.stringify(checks)}`);
+
+    const message: slack.SlackMessage = {
+        attachments: [
+            {
+                fallback: `JIRA Configuration Check`,
+                pretext: `JIRA Configuration Check`,
+                color: healthy ? "#45B254" : "#D94649",
+                fields: checks.map(c => ({
+                    title: `${c.ok ? "\u{2705}" : "\u{274C}"} ${c.name}${c.instance ? ` [${c.instance}]` : ""}`,
+                    value: c.detail,
+                    short: false,
+                })),
+                ts: slackTs(),
+            },
+        ],
+    };
+
+    await ci.addressChannels(message);
+    return {code: 0};
+}
+
+export const jiraDoctorReg: CommandHandlerRegistration<JiraDoctorParams> = {
+    name: "JiraDoctor",
+    description: "Check the JIRA configuration and connectivity",
+    intent: "jira doctor",
+    paramsMaker: JiraDoctorParams,
+    listener: jiraDoctor,
+};
@@ -40,14 +40,19 @@ import {
     SlackMessage,
     url,
 } from "@atomist/slack-messages";
-import { JiraConfig } from "../../jira";
 import * as types from "../../typings/types";
-import { convertEmailtoJiraUser } from "../shared";
+import { getJiraInstance } from "../instances";
+import { Issue } from "../jiraDefs";
+import {
+    buildJiraUserField,
+    convertEmailtoJiraUser,
+} from "../shared";
 import {
     createJiraResource,
-    JiraQueryLanguageIssueResults,
     prepProjectSelect,
-    searchIssues,
+    promptForJiraInstance,
+    reportJiraError,
+    searchAllIssues,
 } from "./shared";
 
 const JiraCreateBranchParams: ParametersDefinition = {
@@ -87,12 +92,13 @@ const JiraFindAndAssignParams: ParametersDefinition = {
 };
 
 export async function jiraFindAndAssign(ci: CommandListenerInvocation<{project: string, screenName: string}>): Promise<HandlerResult> {
-    const jiraConfig = configurationValue<object>("sdm.jira") as JiraConfig;
+    // Select the JIRA instance (only prompts when more than one is configured)
+    const jiraConfig = getJiraInstance(await promptForJiraInstance(ci));
 
     // Present list of projects
-    const projectValues = await prepProjectSelect(ci.parameters.project, ci);
+    const projectValues = await prepProjectSelect(ci.parameters.project, ci, jiraConfig.name);
     if (projectValues) {
-        let issues: JiraQueryLanguageIssueResults;
+        let issues: Issue[];
         const projectKey = await ci.promptFor<{ key: string }>({
             key: {
                 displayName: `Please select a project`,
@@ -105,8 +111,12 @@ export async function jiraFindAndAssign(ci: CommandListenerInvocation<{project:
         });
 
         try {
-            issues = await searchIssues(`project=${projectKey.key}+AND+assignee=null+AND+status!=Closed`, undefined, undefined, ci);
-            if (!(issues.issues.length > 0)) {
+            // Chat select menus are limited to 100 options
+            issues = await searchAllIssues(
+                `project = ${projectKey.key} AND assignee is EMPTY AND status != Closed ORDER BY created DESC`,
+                {fields: ["summary"], limit: 100, ctx: ci, instance: jiraConfig.name},
+            );
+            if (!(issues.length > 0)) {
                 throw new Error("No issues found!");
             }
         } catch (e) {
@@ -131,7 +141,7 @@ export async function jiraFindAndAssign(ci: CommandListenerInvocation<{project:
         }
 
         const issueOptions: Option[] = [];
-        issues.issues.forEach(i => {
+        issues.forEach(i => {
             issueOptions.push({
                 description: i.fields.summary,
                 value: i.key,
@@ -164,7 +174,7 @@ export async function jiraFindAndAssign(ci: CommandListenerInvocation<{project:
         ) {
             // Try to find requester
             await Promise.all(requester.ChatId[0].person.emails.map(async e => {
-                const res = await convertEmailtoJiraUser(e.address);
+                const res = await convertEmailtoJiraUser(e.address, jiraConfig.name);
                 if (res) {
                     realRequester = res;
                 }
@@ -172,13 +182,17 @@ export async function jiraFindAndAssign(ci: CommandListenerInvocation<{project:
         }
 
         // TODO: Fail if not found
-        const issueOwner = realRequester ? realRequester : jiraConfig.user;
-        await createJiraResource(
-            `${jiraConfig.url}/rest/api/2/issue/${myIssue.issue}/assignee`,
-            {name: issueOwner},
-            true,
-            ci,
-        );
+        const issueOwner = realRequester ? buildJiraUserField(realRequester, jiraConfig.name) : {name: jiraConfig.user};
+        try {
+            await createJiraResource(
+                `${jiraConfig.apiUrl}/issue/${myIssue.issue}/assignee`,
+                issueOwner,
+                true,
+                ci,
+            );
+        } catch (e) {
+            return reportJiraError(ci, `Failed to assign JIRA Issue ${myIssue.issue}`, e);
+        }
 
         const scmId = await ci.context.graphClient.query<types.GetPersonByChatId.Query, types.GetPersonByChatId.Variables>({
             name: "GetPersonByChatId",
@@ -16,7 +16,6 @@
 
 import {
     buttonForCommand,
-    configurationValue,
     HandlerContext,
     HandlerResult,
     logger,
@@ -31,12 +30,17 @@ import {
     slackTs,
 } from "@atomist/sdm";
 import * as slack from "@atomist/slack-messages";
-import { JiraConfig } from "../../jira";
 import {
     getMappedComponentsbyChannel,
     getMappedProjectsbyChannel,
     JiraProjectComponentMap,
+    JiraProjectMap,
 } from "../helpers/channelLookup";
+import {
+    findJiraInstanceByUrl,
+    getJiraInstance,
+    resolveJiraInstanceName,
+} from "../instances";
 import { getJiraDetails } from "../jiraDataLookup";
 import { Project } from "../jiraDefs";
 
@@ -46,21 +50,34 @@ class JiraGetCurrentChannelMappingsParams {
     public slackChannelName: string;
 }
 
-export const findRequiredProjects = async (components: JiraProjectComponentMap[], projectIds: string[]): Promise<string[]> => {
+/**
+ * Is this project map (or component map) for the supplied project?  Projects in different JIRA instances can share the same id.
+ * @param {JiraProjectMap} map
+ * @param {Project} project
+ * @returns {boolean}
+ */
+export const isMappedProject = (map: JiraProjectMap, project: Project): boolean =>
+    map.projectId === project.id && resolveJiraInstanceName(map.instance) === findJiraInstanceByUrl(project.self).name;
+
+export const findRequiredProjects = async (components: JiraProjectComponentMap[], projectIds: JiraProjectMap[]): Promise<JiraProjectMap[]> => {
     // Determine if the project ids are the same (so we can make just 1 query for those projects/components)
     logger.debug(`JIRA findRequiredProjects: projectIds to lookup => ${JSON.stringify(projectIds)}`);
     logger.debug(`JIRA findRequiredProjects: componentIds to lookup => ${JSON.stringify(components.filter(c => c.componentId !== null))}`);
-    const projects: string[] = [];
+    const projects: JiraProjectMap[] = [];
+    const sameProject = (a: JiraProjectMap, b: JiraProjectMap) =>
+        a.projectId === b.projectId && resolveJiraInstanceName(a.instance) === resolveJiraInstanceName(b.instance);
     if (projectIds.length > 0 && components.length > 0) {
         components.map(c => {
-            if (!projectIds.includes(c.projectId)) {
-                projects.push(c.projectId);
+            if (!projectIds.some(p => sameProject(p, c)) && !projects.some(p => sameProject(p, c))) {
+                projects.push({projectId: c.projectId, instance: c.instance});
             }
         });
         projectIds.forEach(p => projects.push(p));
     } else if (projectIds.length === 0) {
         components.map(c => {
-            projects.push(c.projectId);
+            if (!projects.some(p => sameProject(p, c))) {
+                projects.push({projectId: c.projectId, instance: c.instance});
+            }
         });
     } else if (components.length === 0) {
         projectIds.forEach(p => projects.push(p));
@@ -70,27 +87,27 @@ export const findRequiredProjects = async (components: JiraProjectComponentMap[]
     return projects;
 };
 
-export const lookupJiraProjectDetails = async (projectsToLookup: string[], ctx?: SdmContext): Promise<Project[]> => {
+/**
+ * Lookup the details of each project.  The returned details are in the same order as the supplied projects.
+ * @param {JiraProjectMap[]} projectsToLookup
+ * @param {SdmContext} ctx
+ * @returns {Project[]}
+ */
+export const lookupJiraProjectDetails = async (projectsToLookup: JiraProjectMap[], ctx?: SdmContext): Promise<Project[]> => {
     // Lookup JIRA details
-    const jiraConfig = configurationValue<JiraConfig>("sdm.jira");
-    const projectDetails: Project[] = [];
-    await Promise.all(projectsToLookup.map(async p => {
-            const lookupUrl = `${jiraConfig.url}/rest/api/2/project/${p}`;
-            const localProjectDetails = await getJiraDetails<Project>(lookupUrl, true, undefined, ctx);
-            projectDetails.push(localProjectDetails);
+    return Promise.all(projectsToLookup.map(async p => {
+        const lookupUrl = `${getJiraInstance(p.instance).apiUrl}/project/${p.projectId}`;
+        return getJiraDetails<Project>(lookupUrl, true, undefined, ctx, [], "project");
     }));
-
-    return projectDetails;
 };
 
 export const prepareFriendlyComponentNames = async (components: JiraProjectComponentMap[], projectDetails: Project[]): Promise<string[]> => {
-    const jiraConfig = configurationValue<JiraConfig>("sdm.jira");
     const returnComponents: string[] = [];
-    const baseComponentUrl = `${jiraConfig.url}/projects`;
     const componentSuffix = `?selectedItem=com.atlassian.jira.jira-projects-plugin:components-page`;
     components.map(c => {
         try {
-            const project = projectDetails.filter(p => p.id === c.projectId)[0];
+            const project = projectDetails.filter(p => isMappedProject(c, p))[0];
+            const baseComponentUrl = `${findJiraInstanceByUrl(project.self).url}/projects`;
             const projectName = project.name;
             const componentName = project.components.filter(comp => comp.id === c.componentId)[0].name;
             const componentUrl = `${baseComponentUrl}/${project.key}${componentSuffix}`;
@@ -109,11 +126,9 @@ export const prepareFriendlyComponentNames = async (components: JiraProjectCompo
 };
 
 export const prepareFriendProjectNames = async (projects: Project[]): Promise<string[]> => {
-    const jiraConfig = configurationValue<JiraConfig>("sdm.jira");
     const returnProjects: string[] =  [];
-    const baseComponentUrl = `${jiraConfig.url}/projects`;
     projects.forEach(p => {
-        const projectUrl = `${baseComponentUrl}/${p.key}/issues`;
+        const projectUrl = `${findJiraInstanceByUrl(p.self).url}/projects/${p.key}/issues`;
         returnProjects.push(`${slack.url(projectUrl, p.name)}`);
     });
 
@@ -0,0 +1,194 @@
+/*
+ * Copyright © 2019 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+    HandlerResult,
+    logger,
+    MappedParameter,
+    MappedParameters,
+    Parameters,
+} from "@atomist/automation-client";
+import {
+    CommandHandlerRegistration,
+    CommandListenerInvocation,
+    slackErrorMessage,
+    slackSuccessMessage,
+} from "@atomist/sdm";
+import * as types from "../../typings/types";
+import {
+    buildJiraUserCredentialKey,
+    forgetJiraUserCredential,
+    JiraUserCredential,
+} from "../auth/userCredentials";
+import { invalidateCacheTags } from "../cache/manage";
+import { userEmailCacheTag } from "../cache/tags";
+import { getJiraInstance } from "../instances";
+import { getJiraDetails } from "../jiraDataLookup";
+import { User } from "../jiraDefs";
+import {
+    JiraHandlerParam,
+    promptForJiraInstance,
+} from "./shared";
+
+@Parameters()
+class JiraLinkAccountParams extends JiraHandlerParam {
+    @MappedParameter(MappedParameters.SlackUser)
+    public slackUser: string;
+}
+
+@Parameters()
+class JiraRefreshIdentityParams extends JiraHandlerParam {
+    @MappedParameter(MappedParameters.SlackUserName)
+    public screenName: string;
+}
+
+export async function linkJiraAccount(ci: CommandListenerInvocation<JiraLinkAccountParams>): Promise<HandlerResult> {
+    if (ci.parameters.slackChannel !== ci.parameters.slackChannelName) {
+        await ci.addressChannels(slackErrorMessage(
+            `Cannot Link JIRA Account in a Channel`,
+            `To protect your credentials, please run this command in a direct message with the bot.`,
+            ci.context,
+        ));
+        return {code: 0};
+    }
+
+    const jiraConfig = getJiraInstance(await promptForJiraInstance(ci));
+    const credentialType = await ci.promptFor<{ type: "basic" | "oauth" }>({
+        type: {
+            displayName: `Please select a credential type`,
+            description: `Please select a credential type`,
+            type: {
+                kind: "single",
+                options: [
+                    {description: "API Token (or Password)", value: "basic"},
+                    ...(jiraConfig.oauth ? [{description: "OAuth Access Token", value: "oauth"}] : []),
+                ],
+            },
+        },
+    });
+
+    let credential: JiraUserCredential;
+    if (credentialType.type === "oauth") {
+        const details = await ci.promptFor<{ token: string }>({
+            token: {
+                displayName: `Please enter your OAuth access token`,
+                description: `Please enter your OAuth access token`,
+            },
+        });
+        credential = {type: "oauth", token: details.token};
+    } else {
+        const details = await ci.promptFor<{ user: string, token: string }>({
+            user: {
+                displayName: `Please enter your JIRA username (or email address for JIRA Cloud)`,
+                description: `Please enter your JIRA username (or email address for JIRA Cloud)`,
+                order: 1,
+            },
+            token: {
+                displayName: `Please enter your JIRA API token`,
+                description: `Please enter your JIRA API token`,
+                order: 2,
+            },
+        });
+        credential = {type: "basic", user: details.user, token: details.token};
+    }
+
+    const key = buildJiraUserCredentialKey(ci.context.workspaceId, jiraConfig.name, ci.parameters.slackUser);
+    try {
+        await ci.preferences.put<JiraUserCredential>(key, credential, {scope: "JIRAUserCredentials"});
+        forgetJiraUserCredential(key);
+
+        // Validate the supplied credentials, these are now used for any requests made by this user
+        const me = await getJiraDetails<User>(`${jiraConfig.apiUrl}/myself`, false, undefined, ci);
+        await ci.addressChannels(slackSuccessMessage(
+            `Linked JIRA Account`,
+            `Successfully linked your chat user to JIRA user *${me.displayName}*.  Actions you take will now be performed as this user.`,
+        ));
+        return {code: 0};
+    } catch (e) {
+        logger.error(`JIRA linkJiraAccount: Failed to validate credentials.  Error => ${e}`);
+        await ci.preferences.delete(key, {scope: "JIRAUserCredentials"});
+        forgetJiraUserCredential(key);
+        await ci.addressChannels(slackErrorMessage(
+            `Failed to Link JIRA Account`,
+            `The supplied credentials could not be validated with JIRA, please try again.`,
+            ci.context,
+        ));
+        return {code: 1, message: e};
+    }
+}
+
+export const linkJiraAccountReg: CommandHandlerRegistration<JiraLinkAccountParams> = {
+    name: "LinkJiraAccount",
+    description: "Link your chat user to your own JIRA credentials",
+    intent: "jira link account",
+    paramsMaker: JiraLinkAccountParams,
+    listener: linkJiraAccount,
+};
+
+export async function unlinkJiraAccount(ci: CommandListenerInvocation<JiraLinkAccountParams>): Promise<HandlerResult> {
+    const instance = await promptForJiraInstance(ci);
+    const key = buildJiraUserCredentialKey(ci.context.workspaceId, instance, ci.parameters.slackUser);
+    await ci.preferences.delete(key, {scope: "JIRAUserCredentials"});
+    forgetJiraUserCredential(key);
+    await ci.addressChannels(slackSuccessMessage(
+        `Unlinked JIRA Account`,
+        `Removed your JIRA credentials.  Actions you take will now be performed by the service account.`,
+    ));
+    return {code: 0};
+}
+
+export const unlinkJiraAccountReg: CommandHandlerRegistration<JiraLinkAccountParams> = {
+    name: "UnlinkJiraAccount",
+    description: "Remove the JIRA credentials linked to your chat user",
+    intent: "jira unlink account",
+    paramsMaker: JiraLinkAccountParams,
+    listener: unlinkJiraAccount,
+};
+
+/**
+ * Forget the JIRA user (or lack of one) cached for each of the invoking chat user's email addresses, ie after they've been
+ * given a JIRA account
+ */
+export async function refreshJiraIdentity(ci: CommandListenerInvocation<JiraRefreshIdentityParams>): Promise<HandlerResult> {
+    const person = await ci.context.graphClient.query<types.GetEmailByChatId.Query, types.GetEmailByChatId.Variables>({
+        name: "GetEmailByChatId",
+        variables: {screenName: ci.parameters.screenName},
+    });
+    const addresses = person && person.ChatId && person.ChatId.length > 0 ? person.ChatId[0].person.emails.map(e => e.address) : [];
+    if (addresses.length === 0) {
+        await ci.addressChannels(slackErrorMessage(
+            `Failed to Refresh JIRA Identity`,
+            `Could not find any email addresses for your chat user.`,
+            ci.context,
+        ));
+        return {code: 0};
+    }
+
+    await invalidateCacheTags(...addresses.map(userEmailCacheTag));
+    await ci.addressChannels(slackSuccessMessage(
+        `Refreshed JIRA Identity`,
+        `Your email addresses will be matched to JIRA users again the next time they are needed.`,
+    ));
+    return {code: 0};
+}
+
+export const refreshJiraIdentityReg: CommandHandlerRegistration<JiraRefreshIdentityParams> = {
+    name: "RefreshJiraIdentity",
+    description: "Forget the JIRA user cached for your email addresses",
+    intent: "jira refresh identity",
+    paramsMaker: JiraRefreshIdentityParams,
+    listener: refreshJiraIdentity,
+};
@@ -15,7 +15,6 @@
  */
 
 import {
-    configurationValue,
     HandlerResult,
     logger,
     Parameter,
@@ -27,13 +26,18 @@ import {
     slackErrorMessage,
     slackSuccessMessage,
 } from "@atomist/sdm";
-import { JiraConfig } from "../../jira";
+import { projectCacheTag } from "../cache/tags";
+import {
+    getJiraInstance,
+    storedJiraInstanceName,
+} from "../instances";
 import { getJiraDetails } from "../jiraDataLookup";
 import { Component } from "../jiraDefs";
 import {
     JiraHandlerParam,
     prepComponentSelect,
     prepProjectSelect,
+    promptForJiraInstance,
     submitMappingPayload,
 } from "./shared";
 
@@ -47,7 +51,6 @@ class MapComponentToChannelParams extends JiraHandlerParam {
 }
 
 export async function mapComponentToChannel(ci: CommandListenerInvocation<MapComponentToChannelParams>): Promise<HandlerResult> {
-    const jiraConfig = configurationValue<object>("sdm.jira") as JiraConfig;
     if (ci.parameters.slackChannel === ci.parameters.slackChannelName) {
         await ci.addressChannels(slackErrorMessage(
             `Cannot Setup Mapping to Individual Account`,
@@ -57,8 +60,11 @@ export async function mapComponentToChannel(ci: CommandListenerInvocation<MapCom
         return {code: 0};
     }
 
+    // Select the JIRA instance (only prompts when more than one is configured)
+    const jiraConfig = getJiraInstance(await promptForJiraInstance(ci));
+
     // Present list of projects
-    const projectValues = await prepProjectSelect(ci.parameters.projectSearch, ci);
+    const projectValues = await prepProjectSelect(ci.parameters.projectSearch, ci, jiraConfig.name);
     let project: { project: string };
     if (projectValues) {
         project = await ci.promptFor<{ project: string }>({
@@ -81,7 +87,7 @@ export async function mapComponentToChannel(ci: CommandListenerInvocation<MapCom
     }
 
     // Present list of components
-    const componentValues = await prepComponentSelect(project.project, ci);
+    const componentValues = await prepComponentSelect(project.project, ci, jiraConfig.name);
     let component: {component: string};
     if (componentValues) {
        component = await ci.promptFor<{component: string}>({
@@ -110,11 +116,13 @@ export async function mapComponentToChannel(ci: CommandListenerInvocation<MapCom
                 channel: ci.parameters.slackChannelName,
                 projectId: project.project,
                 componentId: component.component,
+                instance: storedJiraInstanceName(jiraConfig.name),
             },
         );
 
         const componentDetails =
-            await getJiraDetails<Component>(`${jiraConfig.url}/rest/api/2/component/${component.component}`, true, undefined, ci);
+            await getJiraDetails<Component>(
+                `${jiraConfig.apiUrl}/component/${component.component}`, true, undefined, ci, [projectCacheTag(project.project)]);
 
         await ci.addressChannels(slackSuccessMessage(
             `New JIRA Component mapping created successfully!`,
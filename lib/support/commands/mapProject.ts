@@ -15,7 +15,6 @@
  */
 
 import {
-    configurationValue,
     HandlerResult,
     logger,
     Parameter,
@@ -28,12 +27,16 @@ import {
     slackSuccessMessage,
 } from "@atomist/sdm";
 import objectHash = require("object-hash");
-import { JiraConfig } from "../../jira";
+import {
+    getJiraInstance,
+    storedJiraInstanceName,
+} from "../instances";
 import { getJiraDetails } from "../jiraDataLookup";
 import { Project } from "../jiraDefs";
 import {
     JiraHandlerParam,
     prepProjectSelect,
+    promptForJiraInstance,
     submitMappingPayload,
 } from "./shared";
 
@@ -47,7 +50,6 @@ class MapProjectToChannelParams extends JiraHandlerParam {
 }
 
 async function mapProjectToChannel(ci: CommandListenerInvocation<MapProjectToChannelParams>): Promise<HandlerResult> {
-    const jiraConfig = configurationValue<object>("sdm.jira") as JiraConfig;
 
     if (ci.parameters.slackChannel === ci.parameters.slackChannelName) {
         await ci.addressChannels(slackErrorMessage(
@@ -58,9 +60,12 @@ async function mapProjectToChannel(ci: CommandListenerInvocation<MapProjectToCha
         return {code: 0};
     }
 
+    // Select the JIRA instance (only prompts when more than one is configured)
+    const jiraConfig = getJiraInstance(await promptForJiraInstance(ci));
+
     // Present list of projects
     let project: { project: string };
-    const projectValues = await prepProjectSelect(ci.parameters.projectSearch, ci);
+    const projectValues = await prepProjectSelect(ci.parameters.projectSearch, ci, jiraConfig.name);
     if (projectValues) {
          project = await ci.promptFor<{ project: string }>({
             project: {
@@ -87,11 +92,12 @@ async function mapProjectToChannel(ci: CommandListenerInvocation<MapProjectToCha
             {
                 channel: ci.parameters.slackChannelName,
                 projectId: project.project,
+                instance: storedJiraInstanceName(jiraConfig.name),
             },
         );
 
         const projectDetails =
-            await getJiraDetails<Project>(`${jiraConfig.url}/rest/api/2/project/${project.project}`, true, undefined, ci);
+            await getJiraDetails<Project>(`${jiraConfig.apiUrl}/project/${project.project}`, true, undefined, ci, [], "project");
         const subject = `New JIRA Project mapping created successfully!`;
         const message = `Added new mapping from Project *${projectDetails.name}* to *${ci.parameters.slackChannelName}*`;
 
@@ -0,0 +1,64 @@
+/*
+ * Copyright © 2019 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+    HandlerResult,
+    NoParameters,
+} from "@atomist/automation-client";
+import {
+    CommandHandlerRegistration,
+    CommandListenerInvocation,
+    slackInfoMessage,
+    slackTs,
+} from "@atomist/sdm";
+import * as slack from "@atomist/slack-messages";
+import { listJiraWriteQueue } from "../writeQueue";
+
+export async function getJiraWriteQueue(ci: CommandListenerInvocation<NoParameters>): Promise<HandlerResult> {
+    const items = await listJiraWriteQueue(ci.context.workspaceId);
+    if (items.length === 0) {
+        await ci.addressChannels(slackInfoMessage(`JIRA Queue`, `There are no queued JIRA requests.`));
+        return {code: 0};
+    }
+
+    const message: slack.SlackMessage = {
+        attachments: [
+            {
+                pretext: `${items.length} JIRA request${items.length === 1 ? "" : "s"} waiting for JIRA to become available`,
+                fallback: `JIRA Queue`,
+            },
+            ...items.map<slack.Attachment>(i => ({
+                fallback: i.description,
+                title: i.description,
+                text: [
+                    `Queued ${new Date(i.created).toISOString()}${i.chatUserId ? ` by ${slack.user(i.chatUserId)}` : ""}`,
+                    `Attempts: ${i.attempts}, next attempt ${new Date(i.nextAttempt).toISOString()}`,
+                    ...(i.lastError ? [`Last error: ${i.lastError}`] : []),
+                ].join("\n"),
+                ts: slackTs(),
+            })),
+        ],
+    };
+    await ci.addressChannels(message);
+    return {code: 0};
+}
+
+export const getJiraWriteQueueReg: CommandHandlerRegistration<NoParameters> = {
+    name: "GetJiraWriteQueue",
+    description: "Show JIRA requests that are queued because JIRA is unavailable",
+    intent: "jira queue",
+    listener: getJiraWriteQueue,
+};
@@ -15,7 +15,6 @@
  */
 
 import {
-    configurationValue,
     HandlerResult,
     logger,
 } from "@atomist/automation-client";
@@ -26,12 +25,13 @@ import {
     slackSuccessMessage,
 } from "@atomist/sdm";
 import * as objectHash from "object-hash";
-import { JiraConfig } from "../../jira";
 import { getMappedComponentsbyChannel } from "../helpers/channelLookup";
+import { getJiraInstance } from "../instances";
 import { getJiraDetails } from "../jiraDataLookup";
 import { Component } from "../jiraDefs";
 import {
     findRequiredProjects,
+    isMappedProject,
     lookupJiraProjectDetails,
 } from "./getCurrentChannelMappings";
 import {
@@ -41,7 +41,6 @@ import {
 } from "./shared";
 
 export async function removeComponentMapFromChannel(ci: CommandListenerInvocation<JiraHandlerParam>): Promise<HandlerResult> {
-    const jiraConfig = configurationValue<object>("sdm.jira") as JiraConfig;
     // Get linked component ids, project ids
     // Resolve ids to names
     // Present dropdown of components to remove
@@ -56,10 +55,10 @@ export async function removeComponentMapFromChannel(ci: CommandListenerInvocatio
 
     components.forEach(c => {
         try {
-            const thisProject = projectDetails.filter(p => p.id === c.projectId)[0];
+            const thisProject = projectDetails.filter(p => isMappedProject(c, p))[0];
             const thisComponent = thisProject.components.filter(comp => comp.id === c.componentId)[0];
             const display = `${thisProject.name}/${thisComponent.name}`;
-            componentDetails.push({description: display, value: `${c.projectId}:${c.componentId}`});
+            componentDetails.push({description: display, value: `${c.projectId}:${c.componentId}:${c.instance || ""}`});
         } catch {
             // You can end up here if a previously mapped project or component no longer exists
             logger.warn(`JIRA removeComponentMapFromChannel: Failed to find details for project ${c.projectId} and component ${c.componentId}`);
@@ -79,19 +78,21 @@ export async function removeComponentMapFromChannel(ci: CommandListenerInvocatio
     });
 
     try {
+        const [projectId, componentId, instance] = component.component.split(":");
         await submitMappingPayload(
             ci,
             {
                 channel: ci.parameters.slackChannelName,
-                projectId: component.component.split(":")[0],
-                componentId: component.component.split(":")[1],
+                projectId,
+                componentId,
+                instance: instance || undefined,
             },
             false,
         );
 
         const compInfo =
             await getJiraDetails<Component>(
-                `${jiraConfig.url}/rest/api/2/component/${component.component.split(":")[1]}`, undefined, undefined, ci);
+                `${getJiraInstance(instance || undefined).apiUrl}/component/${componentId}`, undefined, undefined, ci);
 
         await ci.addressChannels(slackSuccessMessage(
             `Removed JIRA Component mapping successfully!`,
@@ -15,7 +15,6 @@
  */
 
 import {
-    configurationValue,
     HandlerResult,
     logger,
 } from "@atomist/automation-client";
@@ -25,8 +24,8 @@ import {
     CommandListenerInvocation,
     slackSuccessMessage,
 } from "@atomist/sdm";
-import { JiraConfig } from "../../jira";
 import { getMappedProjectsbyChannel } from "../helpers/channelLookup";
+import { getJiraInstance } from "../instances";
 import { getJiraDetails } from "../jiraDataLookup";
 import { Project } from "../jiraDefs";
 import { lookupJiraProjectDetails } from "./getCurrentChannelMappings";
@@ -36,16 +35,14 @@ import {
 } from "./shared";
 
 export async function removeProjectMapFromChannel(ci: CommandListenerInvocation<JiraHandlerParam>): Promise<HandlerResult> {
-    const jiraConfig = configurationValue<object>("sdm.jira") as JiraConfig;
-
     // Get current channel projects
     const projects = await getMappedProjectsbyChannel(ci.context, ci.parameters.slackChannelName);
     const projectDetails = await lookupJiraProjectDetails(projects, ci);
 
     const projectValues: Option[] = [];
 
-    projectDetails.forEach(p => {
-        projectValues.push({description: p.name, value: p.id});
+    projectDetails.forEach((p, i) => {
+        projectValues.push({description: p.name, value: `${p.id}:${projects[i].instance || ""}`});
     });
 
     const project = await ci.promptFor<{ project: string }>({
@@ -60,17 +57,19 @@ export async function removeProjectMapFromChannel(ci: CommandListenerInvocation<
     });
 
     try {
+        const [projectId, instance] = project.project.split(":");
         await submitMappingPayload(
             ci,
             {
                 channel: ci.parameters.slackChannelName,
-                projectId: project.project,
+                projectId,
+                instance: instance || undefined,
             },
             false,
         );
 
-        const projectDetail =
-            await getJiraDetails<Project>(`${jiraConfig.url}/rest/api/2/project/${project.project}`, true, undefined, ci);
+        const projectDetail = await getJiraDetails<Project>(
+            `${getJiraInstance(instance || undefined).apiUrl}/project/${projectId}`, true, undefined, ci, [], "project");
         const subject = `JIRA Project mapping removed successfully!`;
         const message = `Removed mapping from Project *${projectDetail.name}* to *${ci.parameters.slackChannelName}*`;
 
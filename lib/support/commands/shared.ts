@@ -15,14 +15,13 @@
  */
 
 import {
-    addressEvent,
     configurationValue,
-    HandlerContext,
-    HttpClientFactory,
+    HandlerResult,
     HttpMethod,
     logger,
     MappedParameter,
     MappedParameters,
+    MessageOptions,
     Parameters,
 } from "@atomist/automation-client";
 import { Option } from "@atomist/automation-client/lib/metadata/automationMetadata";
@@ -30,19 +29,30 @@ import {
     CommandListenerInvocation,
     PreferenceStoreFactory,
     SdmContext,
+    slackErrorMessage,
+    slackInfoMessage,
 } from "@atomist/sdm";
+import _ = require("lodash");
 import * as objectHash from "object-hash";
+import { invalidateCacheTags } from "../cache/manage";
+import { workspaceCacheTag } from "../cache/tags";
 import {
-    getJiraAuth,
-    JiraConfig,
-} from "../../jira";
-import { JiraPreference } from "../cache/lookup";
-import { purgeCacheEntry } from "../cache/manage";
+    getJiraInstance,
+    getJiraInstances,
+} from "../instances";
+import {
+    describeJiraError,
+    JiraClient,
+} from "../jiraClient";
 import { getJiraDetails } from "../jiraDataLookup";
 import {
     Issue,
     Project,
 } from "../jiraDefs";
+import {
+    JiraWriteResult,
+    submitJiraWrite,
+} from "../writeQueue";
 
 @Parameters()
 export class JiraHandlerParam {
@@ -57,6 +67,10 @@ export interface JiraMapping {
     projectId: string;
     channel: string;
     componentId?: string;
+    /**
+     * The JIRA instance this mapping belongs to.  Only set when multiple instances are configured, unset means the default instance.
+     */
+    instance?: string;
 }
 
 export interface JiraItemCreated {
@@ -66,11 +80,14 @@ export interface JiraItemCreated {
 }
 
 export function buildJiraHashKey(workspaceId: string, payload: JiraMapping): string {
+    // Mappings without an instance must hash the same way they did before instances were introduced
+    const hashPayload = payload.instance ? payload : _.omit(payload, "instance");
     const hash = `${workspaceId}` +
+        `${payload.instance ? "-" + payload.instance : ""}` +
         `${"-" + payload.componentId || ""}` +
         `${"-" + payload.projectId || ""}`   +
         `${"-" + payload.channel || ""}`     +
-        `-${objectHash(payload)}`;
+        `-${objectHash(hashPayload)}`;
     logger.debug(`JIRA buildJiraHashKey: generated hashkey [${hash}] for payload ${JSON.stringify(payload)}`);
     return hash;
 }
@@ -94,18 +111,60 @@ export async function submitMappingPayload(
                 {scope: "JIRAMappings"},
             );
         }
-        // Purge cache entry for this payload as well as for channel lookups (which just use the channel in the payload)
-        await purgeCacheEntry(buildJiraHashKey(ci.context.workspaceId, payload));
-        await purgeCacheEntry(buildJiraHashKey(ci.context.workspaceId, {channel: payload.channel, projectId: undefined, componentId: undefined}));
+        // Purge every cached mapping lookup for this workspace, lookups filter by project, component, channel and instance
+        await invalidateCacheTags(workspaceCacheTag(ci.context.workspaceId, "mappings"));
     } catch (e) {
         logger.error(`JIRA submitMappingPayload: Error found => ${e}`);
         throw new Error(e);
     }
 }
 
-export const createJiraTicket = async (data: any, ctx?: SdmContext): Promise<JiraItemCreated> => {
-    const jiraConfig = configurationValue<object>("sdm.jira") as JiraConfig;
-    return createJiraResource(`${jiraConfig.url}/rest/api/2/issue`, data, undefined, ctx);
+/**
+ * Ask the user which JIRA instance to use.  If only one instance is configured it is returned without prompting.
+ *
+ * @param {CommandListenerInvocation} ci
+ * @returns {string} The name of the selected instance
+ */
+export async function promptForJiraInstance(ci: CommandListenerInvocation<any>): Promise<string> {
+    const instances = getJiraInstances();
+    if (instances.length === 1) {
+        return instances[0].name;
+    }
+
+    const selection = await ci.promptFor<{ instance: string }>({
+        instance: {
+            displayName: `Please select a JIRA instance`,
+            description: `Please select a JIRA instance`,
+            type: {
+                kind: "single",
+                options: instances.map(i => ({description: `${i.name} (${i.url})`, value: i.name})),
+            },
+        },
+    });
+    return selection.instance;
+}
+
+export const createJiraTicket = async (data: any, ctx?: SdmContext, instance?: string): Promise<JiraItemCreated> => {
+    return createJiraResource(`${getJiraInstance(instance).apiUrl}/issue`, data, undefined, ctx);
+};
+
+/**
+ * Create a JIRA issue, queueing the request to be retried if JIRA is unavailable (see submitJiraWrite)
+ *
+ * @param {any} data The issue payload
+ * @param {string} description Description of this request, used when notifying the user of the outcome of a queued request
+ * @param {SdmContext} ctx Passed to supply detail to getJiraAuth and to notify the user.  Where present in calling functions, should be passed in.
+ * @param {string} instance The name of the JIRA instance to create the issue in, defaults to the default instance
+ * @returns {JiraWriteResult<JiraItemCreated>}
+ * @throws {JiraApiError}
+ */
+export const submitJiraTicket = async (
+    data: any,
+    description: string,
+    ctx?: SdmContext,
+    instance?: string,
+): Promise<JiraWriteResult<JiraItemCreated>> => {
+    return submitJiraWrite<JiraItemCreated>({method: HttpMethod.Post, url: `${getJiraInstance(instance).apiUrl}/issue`, data, description}, ctx);
 };
 
 export interface JiraProjectDefinition {
@@ -122,9 +181,9 @@ export interface JiraProjectDefinition {
 export async function createJiraProject(
     data: JiraProjectDefinition,
     ctx?: SdmContext,
+    instance?: string,
 ): Promise<JiraItemCreated> {
-    const jiraConfig = configurationValue<object>("sdm.jira") as JiraConfig;
-    return createJiraResource(`${jiraConfig.url}/rest/api/2/project`, {
+    return createJiraResource(`${getJiraInstance(instance).apiUrl}/project`, {
         key: data.key,
         name: data.name,
         lead: data.lead,
@@ -147,9 +206,9 @@ export interface JiraComponentDefinition {
 export async function createJiraComponent(
     data: JiraComponentDefinition,
     ctx?: SdmContext,
+    instance?: string,
 ): Promise<JiraItemCreated> {
-    const jiraConfig = configurationValue<object>("sdm.jira") as JiraConfig;
-    return createJiraResource(`${jiraConfig.url}/rest/api/2/component`, {
+    return createJiraResource(`${getJiraInstance(instance).apiUrl}/component`, {
         name: data.name,
         description: data.description,
         project: data.project,
@@ -158,40 +217,75 @@ export async function createJiraComponent(
     }, undefined, ctx);
 }
 
+/**
+ * Create (or update) a resource in JIRA
+ *
+ * @param {string} apiUrl The full url of the API endpoint
+ * @param {any} data The payload to submit
+ * @param {boolean} update Should this be submitted as an update (PUT)?  Default false (POST)
+ * @param {SdmContext} ctx Passed to supply detail to getJiraAuth.  Where present in calling functions, should be passed in.
+ * @returns {JiraItemCreated}
+ * @throws {JiraApiError}
+ */
 export const createJiraResource = async (apiUrl: string, data: any, update: boolean = false, ctx?: SdmContext): Promise<JiraItemCreated> => {
-    const httpClient = configurationValue<HttpClientFactory>("http.client.factory").create(apiUrl);
-    logger.warn(`JIRA createJiraResource: Data payload => ${JSON.stringify(data)}`);
-
-    const result = await httpClient.exchange(
-        apiUrl,
-        {
-            method: update ? HttpMethod.Put : HttpMethod.Post,
-            headers: {
-                "Content-Type": "application/json",
-                ...await getJiraAuth(ctx),
-            },
-            body: data,
-        },
-    ).catch(e => {
-        logger.error(
-            "JIRA createJiraResource: Failed to create resource with error - " +
-            `(${JSON.stringify(e.response.status)}) ${JSON.stringify(e.response.data)}`,
-        );
-        throw new Error(JSON.stringify(e.response.data));
-    });
-
-    return result.body as JiraItemCreated;
+    logger.debug(`JIRA createJiraResource: Data payload => ${JSON.stringify(data)}`);
+    const client = new JiraClient(ctx);
+    try {
+        return update ? await client.put<JiraItemCreated>(apiUrl, data) : await client.post<JiraItemCreated>(apiUrl, data);
+    } catch (e) {
+        logger.error(`JIRA createJiraResource: Failed to create resource with error - ${e}`);
+        throw e;
+    }
 };
 
-export async function prepProjectSelect(search: string, ctx: SdmContext): Promise<Option[] | undefined> {
-    const jiraConfig = configurationValue<object>("sdm.jira") as JiraConfig;
+/**
+ * Report a failed JIRA operation back to the user that invoked the command, in a consistent format
+ *
+ * @param {CommandListenerInvocation} ci
+ * @param {string} title
+ * @param {Error} e
+ * @param {MessageOptions} options
+ * @returns {HandlerResult}
+ */
+export async function reportJiraError(
+    ci: CommandListenerInvocation<any>,
+    title: string,
+    e: Error,
+    options?: MessageOptions,
+): Promise<HandlerResult> {
+    logger.error(`JIRA ${title}: ${e}`);
+    await ci.addressChannels(slackErrorMessage(title, describeJiraError(e), ci.context), options);
+    return {code: 1, message: e.message};
+}
 
+/**
+ * Let the user that invoked the command know their request has been queued because JIRA is unavailable
+ *
+ * @param {CommandListenerInvocation} ci
+ * @param {string} title
+ * @param {MessageOptions} options
+ * @returns {HandlerResult}
+ */
+export async function reportJiraWriteQueued(
+    ci: CommandListenerInvocation<any>,
+    title: string,
+    options?: MessageOptions,
+): Promise<HandlerResult> {
+    await ci.addressChannels(slackInfoMessage(
+        title,
+        `JIRA is currently unavailable.  Your request has been queued and will be retried automatically, ` +
+        `you'll be notified here once it completes.  Use \`jira queue\` to see pending requests.`,
+    ), options);
+    return {code: 0};
+}
+
+export async function prepProjectSelect(search: string, ctx: SdmContext, instance?: string): Promise<Option[] | undefined> {
     // Get Search pattern for project lookup
-    const lookupUrl = `${jiraConfig.url}/rest/api/2/project`;
+    const lookupUrl = `${getJiraInstance(instance).apiUrl}/project`;
 
     // Find projects that match project search string
     const projectValues: Option[] = [];
-    const result = await getJiraDetails<Project[]>(lookupUrl, true, undefined, ctx);
+    const result = await getJiraDetails<Project[]>(lookupUrl, true, undefined, ctx, [], "projects");
 
     result.forEach(p => {
         if (p.name.toLowerCase().includes(search.toLowerCase())) {
@@ -210,9 +304,9 @@ export async function prepProjectSelect(search: string, ctx: SdmContext): Promis
 export async function prepComponentSelect(
     project: string,
     ctx: SdmContext,
+    instance?: string,
 ): Promise<Option[] | undefined> {
-    const jiraConfig = configurationValue<object>("sdm.jira") as JiraConfig;
-    const componentLookupUrl = `${jiraConfig.url}/rest/api/2/project/${project}`;
+    const componentLookupUrl = `${getJiraInstance(instance).apiUrl}/project/${project}`;
     const projectDetails = await getJiraDetails<Project>(componentLookupUrl, false, undefined, ctx);
     const componentValues: Option[] = [];
 
@@ -234,16 +328,133 @@ export interface JiraQueryLanguageIssueResults {
     total: number;
 }
 
+export interface JiraSearchOptions {
+    /**
+     * The issue fields to return, ie ["summary", "status"].  Defaults to all navigable fields
+     */
+    fields?: string[];
+
+    /**
+     * Entities to expand for each issue, ie ["renderedFields", "names"]
+     */
+    expand?: string[];
+
+    /**
+     * The number of issues to request per page.  Default 50 (JIRA may return fewer)
+     */
+    pageSize?: number;
+
+    /**
+     * The maximum number of issues to return in total.  Default unlimited
+     */
+    limit?: number;
+
+    /**
+     * Cache each page of results.  Default false
+     */
+    cache?: boolean;
+
+    /**
+     * If we cache, how long should we store each page? Default 300
+     */
+    ttl?: number;
+
+    /**
+     * SdmContext to pass for authentication purposes.  Should be used when calling from a command handler.
+     */
+    ctx?: SdmContext;
+
+    /**
+     * The name of the JIRA instance to search, defaults to the default instance
+     */
+    instance?: string;
+}
+
+/**
+ * Build the search url for a page of results.  The query is normalized (whitespace outside quoted strings collapsed, fields and
+ * expand sorted) so that equivalent searches produce the same url, and therefore share cache entries.
+ */
+function buildSearchUrl(jql: string, startAt: number, maxResults: number, options: JiraSearchOptions): string {
+    const params = [
+        `jql=${encodeURIComponent(jql.trim().replace(/("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')|\s+/g, (m, quoted) => quoted || " "))}`,
+        `startAt=${startAt}`,
+        `maxResults=${maxResults}`,
+    ];
+    if (options.fields && options.fields.length > 0) {
+        params.push(`fields=${encodeURIComponent(_.uniq(options.fields).sort().join(","))}`);
+    }
+    if (options.expand && options.expand.length > 0) {
+        params.push(`expand=${encodeURIComponent(_.uniq(options.expand).sort().join(","))}`);
+    }
+    return `${getJiraInstance(options.instance).apiUrl}/search?${params.join("&")}`;
+}
+
+/**
+ * Retrieve issues via JQL query, paging through the results as they are consumed
+ *
+ *  example: for await (const issue of searchIssuesIterator("project = ABC AND assignee is EMPTY", {fields: ["summary"]})) { ... }
+ *
+ * @param {string} jql JQL syntax only, unencoded
+ * @param {JiraSearchOptions} options
+ * @returns {AsyncIterableIterator<Issue>}
+ * @throws {JiraApiError}
+ */
+export async function* searchIssuesIterator(jql: string, options: JiraSearchOptions = {}): AsyncIterableIterator<Issue> {
+    const pageSize = options.pageSize || 50;
+    const limit = options.limit !== undefined ? options.limit : Infinity;
+    let returned = 0;
+    let startAt = 0;
+
+    while (returned < limit) {
+        const url = buildSearchUrl(jql, startAt, pageSize, options);
+        logger.debug(`JIRA searchIssuesIterator: Retrieving page => ${url}`);
+        const page = await getJiraDetails<JiraQueryLanguageIssueResults>(url, !!options.cache, options.ttl || 300, options.ctx);
+        if (!page.issues || page.issues.length === 0) {
+            return;
+        }
+
+        for (const issue of page.issues) {
+            if (returned >= limit) {
+                return;
+            }
+            returned++;
+            yield issue;
+        }
+
+        startAt = page.startAt + page.issues.length;
+        if (startAt >= page.total) {
+            return;
+        }
+    }
+}
+
+/**
+ * Retrieve all issues matching a JQL query (up to options.limit), handling pagination
+ *
+ * @param {string} jql JQL syntax only, unencoded
+ * @param {JiraSearchOptions} options
+ * @returns {Issue[]}
+ * @throws {JiraApiError}
+ */
+export async function searchAllIssues(jql: string, options: JiraSearchOptions = {}): Promise<Issue[]> {
+    const issues: Issue[] = [];
+    for await (const issue of searchIssuesIterator(jql, options)) {
+        issues.push(issue);
+    }
+    return issues;
+}
+
 /**
- * Simple helper to retrieve issues via JQL query
+ * Simple helper to retrieve a single page of issues via JQL query
  *
- * Notice - Pagination is NOT handled here, needs to be handled in the calling function.  There are helper startAt/maxResults parameters so you do not
- * have to include these items in your query string
+ * Notice - Pagination is NOT handled here, use searchIssuesIterator or searchAllIssues to retrieve every result.  There are helper
+ * startAt/maxResults parameters so you do not have to include these items in your query string
  *
- * @param {String} jql: JQL syntax only
+ * @param {String} jql: JQL syntax only, unencoded
  * @param {String} startAt?: The index to start retrieving from (for pagination)
  * @param {String} maxResults?: The max number of issues to retrieve
  * @param {SdmContext} ctx?: SdmContext to pass for authentication purposes.  Should be used when calling this function from a command handler.
+ * @param {String} instance?: The name of the JIRA instance to search, defaults to the default instance
  * @returns {JiraQueryLanguageIssueResults}
  */
 export async function searchIssues(
@@ -251,9 +462,9 @@ export async function searchIssues(
     startAt?: string,
     maxResults?: string,
     ctx?: SdmContext,
+    instance?: string,
 ): Promise<JiraQueryLanguageIssueResults> {
-    const jiraConfig = configurationValue<object>("sdm.jira") as JiraConfig;
-    let issueLookup = `${jiraConfig.url}/rest/api/2/search?jql=${jql}`;
+    let issueLookup = `${getJiraInstance(instance).apiUrl}/search?jql=${encodeURIComponent(jql)}`;
     if (startAt) {
         issueLookup = issueLookup + `&startAt=${startAt}`;
     }
@@ -0,0 +1,182 @@
+/*
+ * Copyright © 2019 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+    AutomationEventListenerSupport,
+    configurationValue,
+    logger,
+    safeExit,
+} from "@atomist/automation-client";
+import { JiraCache } from "./cache/jiraCache";
+import {
+    getJiraInstances,
+    JiraInstance,
+} from "./instances";
+import {
+    describeJiraError,
+    JiraClient,
+} from "./jiraClient";
+import { User } from "./jiraDefs";
+
+export interface JiraDoctorConfig {
+    /**
+     * Run the checks when the SDM starts.  Default true
+     */
+    onStartup?: boolean;
+
+    /**
+     * Stop the SDM (exit code 1) if any check run at startup fails, rather than only logging the failure.  Default false
+     */
+    failOnError?: boolean;
+}
+
+/**
+ * The result of an individual configuration check
+ */
+export interface JiraDoctorCheck {
+    name: string;
+    instance?: string;
+    ok: boolean;
+    detail: string;
+}
+
+interface JiraDevStatusDetail {
+    errors?: Array<{error?: string, message?: string} | string>;
+    detail?: any[];
+}
+
+/**
+ * Validate the JIRA configuration and connectivity of every configured instance, and that the cache is responding
+ *
+ * - Authentication: Calls /myself using the configured authenticator
+ * - VCS Type: When useDynamicChannels is enabled, confirms the dev-status API accepts the configured vcstype
+ * - Cache: Confirms values can be stored, retrieved and removed from the cache
+ *
+ * @returns {JiraDoctorCheck[]}
+ */
+export async function runJiraDoctor(): Promise<JiraDoctorCheck[]> {
+    const checks: JiraDoctorCheck[] = [];
+    let instances: JiraInstance[];
+    try {
+        instances = getJiraInstances();
+    } catch (e) {
+        return [{name: "Configuration", ok: false, detail: e.message}];
+    }
+
+    for (const instance of instances) {
+        checks.push(await checkAuthentication(instance));
+        if (configurationValue<boolean>("sdm.jira.useDynamicChannels", true)) {
+            checks.push(await checkVcsType(instance));
+        }
+    }
+    checks.push(await checkCache());
+    return checks;
+}
+
+/**
+ * Format doctor results as a plain text report, one line per check
+ * @param {JiraDoctorCheck[]} checks
+ * @returns {string}
+ */
+export function formatJiraDoctorReport(checks: JiraDoctorCheck[]): string {
+    return checks.map(c =>
+        `${c.ok ? "\u{2705}" : "\u{274C}"} ${c.name}${c.instance ? ` [${c.instance}]` : ""}: ${c.detail.replace(/\n/g, "; ")}`,
+    ).join("\n");
+}
+
+async function checkAuthentication(instance: JiraInstance): Promise<JiraDoctorCheck> {
+    const name = "Authentication";
+    try {
+        const me = await new JiraClient(undefined, {retries: 0}).get<User>(`${instance.apiUrl}/myself`);
+        return {name, instance: instance.name, ok: true, detail: `Authenticated to ${instance.url} as ${me.displayName || me.name}`};
+    } catch (e) {
+        return {name, instance: instance.name, ok: false, detail: `Failed to authenticate to ${instance.url}. ${describeJiraError(e)}`};
+    }
+}
+
+async function checkVcsType(instance: JiraInstance): Promise<JiraDoctorCheck> {
+    const name = "VCS Type";
+    if (!instance.vcstype) {
+        return {name, instance: instance.name, ok: false, detail: `useDynamicChannels is enabled but no vcstype is configured`};
+    }
+
+    try {
+        // The dev-status API needs an issue to query, any issue will do
+        const client = new JiraClient(undefined, {retries: 0});
+        const search = await client.get<{issues: Array<{id: string}>}>(`${instance.apiUrl}/search?maxResults=1&fields=id`);
+        if (!search.issues || search.issues.length === 0) {
+            return {name, instance: instance.name, ok: true, detail: `No issues found to validate vcstype ${instance.vcstype} against, skipped`};
+        }
+
+        const result = await client.get<JiraDevStatusDetail>(
+            `${instance.url}/rest/dev-status/latest/issue/detail?issueId=${search.issues[0].id}` +
+            `&applicationType=${encodeURIComponent(instance.vcstype)}&dataType=repository`);
+        if (result.errors && result.errors.length > 0) {
+            const errors = result.errors.map(e => typeof e === "string" ? e : e.message || e.error);
+            return {name, instance: instance.name, ok: false, detail: `vcstype ${instance.vcstype} was rejected: ${errors.join(", ")}`};
+        }
+        return {name, instance: instance.name, ok: true, detail: `dev-status API accepted vcstype ${instance.vcstype}`};
+    } catch (e) {
+        return {name, instance: instance.name, ok: false, detail: `Failed to validate vcstype ${instance.vcstype}. ${describeJiraError(e)}`};
+    }
+}
+
+async function checkCache(): Promise<JiraDoctorCheck> {
+    const name = "Cache";
+    try {
+        const cache = configurationValue<JiraCache>("sdm.jiraCache");
+        const key = `jira-doctor-${Date.now()}`;
+        await cache.set(key, "ok", 30);
+        const value = await cache.get<string>(key);
+        await cache.del(key);
+        if (value !== "ok") {
+            return {name, ok: false, detail: `${cache.constructor.name} did not return a value that was just stored`};
+        }
+        const stats = await cache.getStats();
+        return {name, ok: true, detail: `${cache.constructor.name} is responding (${stats.keys} keys)`};
+    } catch (e) {
+        return {name, ok: false, detail: `Cache is not responding. ${e}`};
+    }
+}
+
+/**
+ * Runs the JIRA doctor checks once the SDM has started, logging a report.  The checks run in the background, so they don't
+ * delay the other startup listeners (ie cache warmup).  A failed check is only logged, unless sdm.jira.doctor.failOnError is
+ * set in which case the SDM is stopped.
+ */
+export class JiraDoctorStartupListener extends AutomationEventListenerSupport {
+    public async startupSuccessful(): Promise<void> {
+        const config = configurationValue<JiraDoctorConfig>("sdm.jira.doctor", {});
+        if (config.onStartup === false) {
+            return;
+        }
+
+        runStartupChecks(config).catch(e => logger.error(`JIRA doctor: Failed to run configuration checks.  Error => ${e}`));
+    }
+}
+
+async function runStartupChecks(config: JiraDoctorConfig): Promise<void> {
+    const checks = await runJiraDoctor();
+    const report = formatJiraDoctorReport(checks);
+    if (checks.every(c => c.ok)) {
+        logger.info(`JIRA doctor: All checks passed\n${report}`);
+    } else if (config.failOnError) {
+        logger.error(`JIRA doctor: Configuration checks failed, stopping the SDM (sdm.jira.doctor.failOnError is set)\n${report}`);
+        safeExit(1);
+    } else {
+        logger.warn(`JIRA doctor: Configuration checks failed\n${report}`);
+    }
+}
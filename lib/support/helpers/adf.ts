@@ -0,0 +1,348 @@
+/*
+ * Copyright © 2019 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as slack from "@atomist/slack-messages";
+
+/**
+ * Atlassian Document Format (ADF) mark, ie strong, em, link
+ */
+export interface AdfMark {
+    type: string;
+    attrs?: {[key: string]: any};
+}
+
+/**
+ * Atlassian Document Format (ADF) node.  Used by the JIRA Cloud REST API (v3) for rich text fields such as descriptions and comments.
+ */
+export interface AdfNode {
+    type: string;
+    text?: string;
+    content?: AdfNode[];
+    marks?: AdfMark[];
+    attrs?: {[key: string]: any};
+}
+
+export interface AdfDocument extends AdfNode {
+    type: "doc";
+    version: 1;
+    content: AdfNode[];
+}
+
+/**
+ * Is the supplied value an ADF document?
+ * @param {any} value
+ * @returns {boolean}
+ */
+export function isAdfDocument(value: any): value is AdfDocument {
+    return !!value && typeof value === "object" && value.type === "doc" && Array.isArray(value.content);
+}
+
+const BulletPattern = /^\s*(?:[-*]|•)\s+(.*)$/;
+const OrderedPattern = /^\s*\d+[.)]\s+(.*)$/;
+const QuotePattern = /^\s*(?:>|&gt;)\s?(.*)$/;
+
+/**
+ * Convert Slack markdown (mrkdwn) into an ADF document
+ *
+ * Supports paragraphs, line breaks, bullet and ordered lists, block quotes, code blocks, bold, italic, strike-through,
+ * inline code and links.
+ *
+ * @param {string} markdown
+ * @returns {AdfDocument}
+ */
+export function slackToAdf(markdown: string): AdfDocument {
+    const lines = (markdown || "").replace(/\r\n/g, "\n").split("\n");
+    const content: AdfNode[] = [];
+    let paragraph: string[] = [];
+
+    const flushParagraph = () => {
+        if (paragraph.length > 0) {
+            content.push({type: "paragraph", content: linesToInline(paragraph)});
+            paragraph = [];
+        }
+    };
+
+    let i = 0;
+    while (i < lines.length) {
+        const line = lines[i];
+        if (line.trim().startsWith("```")) {
+            flushParagraph();
+            const codeBlock = parseCodeBlock(lines, i);
+            content.push(codeBlock.node);
+            i = codeBlock.next;
+        } else if (QuotePattern.test(line)) {
+            flushParagraph();
+            const quote: string[] = [];
+            while (i < lines.length && QuotePattern.test(lines[i])) {
+                quote.push(QuotePattern.exec(lines[i])[1]);
+                i++;
+            }
+            content.push({type: "blockquote", content: [{type: "paragraph", content: linesToInline(quote)}]});
+        } else if (BulletPattern.test(line) || OrderedPattern.test(line)) {
+            flushParagraph();
+            const pattern = BulletPattern.test(line) ? BulletPattern : OrderedPattern;
+            const items: AdfNode[] = [];
+            while (i < lines.length && pattern.test(lines[i])) {
+                items.push({type: "listItem", content: [{type: "paragraph", content: parseInline(pattern.exec(lines[i])[1])}]});
+                i++;
+            }
+            content.push({type: pattern === BulletPattern ? "bulletList" : "orderedList", content: items});
+        } else if (line.trim() === "") {
+            flushParagraph();
+            i++;
+        } else {
+            paragraph.push(line);
+            i++;
+        }
+    }
+    flushParagraph();
+
+    return {type: "doc", version: 1, content};
+}
+
+/**
+ * Parse a code block starting at the supplied line
+ * @returns {{node: AdfNode, next: number}} The codeBlock node and the index of the line following the block
+ */
+function parseCodeBlock(lines: string[], start: number): {node: AdfNode, next: number} {
+    const code: string[] = [];
+    const first = lines[start].trim().slice(3);
+    let i = start;
+    if (first.endsWith("```") && first.length >= 3) {
+        code.push(first.slice(0, -3));
+    } else {
+        if (first) {
+            code.push(first);
+        }
+        i++;
+        while (i < lines.length && !lines[i].trim().endsWith("```")) {
+            code.push(lines[i]);
+            i++;
+        }
+        if (i < lines.length && lines[i].trim() !== "```") {
+            code.push(lines[i].trim().slice(0, -3));
+        }
+    }
+    return {
+        node: {type: "codeBlock", content: code.length > 0 ? [{type: "text", text: unescapeSlack(code.join("\n"))}] : []},
+        next: i + 1,
+    };
+}
+
+/**
+ * Convert plain text into an ADF document without interpreting any markup.  Blank lines separate paragraphs.
+ *
+ * @param {string} text
+ * @returns {AdfDocument}
+ */
+export function textToAdf(text: string): AdfDocument {
+    const content = (text || "").replace(/\r\n/g, "\n").split(/\n{2,}/).filter(p => p.length > 0).map<AdfNode>(p => ({
+        type: "paragraph",
+        content: p.split("\n").reduce<AdfNode[]>((nodes, line, i) => [
+            ...nodes,
+            ...(i > 0 ? [{type: "hardBreak"}] : []),
+            ...(line ? [{type: "text", text: line}] : []),
+        ], []),
+    }));
+    return {type: "doc", version: 1, content};
+}
+
+/**
+ * Convert an ADF document (or node) into Slack markdown (mrkdwn)
+ *
+ * @param {AdfNode} node
+ * @returns {string}
+ */
+export function adfToSlack(node: AdfNode): string {
+    if (!node) {
+        return "";
+    }
+    return blockToSlack(node).replace(/\n{3,}/g, "\n\n").trim();
+}
+
+/**
+ * Extract the plain text of an ADF document (or node), discarding all formatting
+ *
+ * @param {AdfNode} node
+ * @returns {string}
+ */
+export function adfToText(node: AdfNode): string {
+    if (!node) {
+        return "";
+    } else if (node.type === "text") {
+        return node.text || "";
+    } else if (node.type === "hardBreak") {
+        return "\n";
+    } else if (node.type === "mention" || node.type === "emoji") {
+        return node.attrs && node.attrs.text ? node.attrs.text : "";
+    }
+    const inner = (node.content || []).map(adfToText);
+    return ["doc", "bulletList", "orderedList", "blockquote", "listItem", "table", "tableRow"].includes(node.type) ?
+        inner.join("\n") : inner.join("");
+}
+
+function blockToSlack(node: AdfNode, depth: number = 0): string {
+    const children = node.content || [];
+    switch (node.type) {
+        case "doc":
+        case "panel":
+        case "expand":
+        case "layoutSection":
+        case "layoutColumn":
+            return children.map(c => blockToSlack(c, depth)).join("\n\n");
+        case "paragraph":
+            return inlineToSlack(children);
+        case "heading":
+            return slack.bold(inlineToSlack(children));
+        case "codeBlock":
+            return "```\n" + children.map(c => c.text || "").join("") + "\n```";
+        case "blockquote":
+            return children.map(c => blockToSlack(c, depth)).join("\n").split("\n").map(l => `> ${l}`).join("\n");
+        case "bulletList":
+        case "orderedList": {
+            const start = node.attrs && node.attrs.order ? node.attrs.order : 1;
+            return children.map((item, index) => {
+                const bullet = node.type === "bulletList" ? "•" : `${start + index}.`;
+                return `${"    ".repeat(depth)}${bullet} ` + (item.content || []).map(c =>
+                    c.type === "bulletList" || c.type === "orderedList" ? "\n" + blockToSlack(c, depth + 1) : blockToSlack(c, depth),
+                ).join("");
+            }).join("\n");
+        }
+        case "rule":
+            return "———";
+        case "table":
+            return children.map(row =>
+                (row.content || []).map(cell => (cell.content || []).map(c => blockToSlack(c, depth)).join(" ")).join(" | "),
+            ).join("\n");
+        case "mediaSingle":
+        case "mediaGroup":
+        case "media":
+            return "";
+        case "blockCard":
+        case "embedCard":
+            return node.attrs && node.attrs.url ? `<${node.attrs.url}>` : "";
+        default:
+            return node.content ? inlineToSlack(children) : inlineToSlack([node]);
+    }
+}
+
+function inlineToSlack(nodes: AdfNode[]): string {
+    return nodes.map(n => {
+        switch (n.type) {
+            case "text":
+                return applyMarks(slack.escape(n.text || ""), n.marks || []);
+            case "hardBreak":
+                return "\n";
+            case "mention":
+            case "emoji":
+                return n.attrs ? slack.escape(n.attrs.text || n.attrs.shortName || "") : "";
+            case "inlineCard":
+                return n.attrs && n.attrs.url ? `<${n.attrs.url}>` : "";
+            case "status":
+                return n.attrs && n.attrs.text ? `[${n.attrs.text}]` : "";
+            case "date":
+                return n.attrs && n.attrs.timestamp ? new Date(Number(n.attrs.timestamp)).toISOString().slice(0, 10) : "";
+            default:
+                return n.content ? inlineToSlack(n.content) : "";
+        }
+    }).join("");
+}
+
+function applyMarks(text: string, marks: AdfMark[]): string {
+    if (!text.trim()) {
+        return text;
+    }
+    // Slack only recognises formatting that doesn't start or end with whitespace
+    const [, leading, core, trailing] = /^(\s*)([\s\S]*?)(\s*)$/.exec(text);
+    let result = core;
+    let link: string;
+    marks.forEach(m => {
+        switch (m.type) {
+            case "strong":
+                result = `*${result}*`;
+                break;
+            case "em":
+                result = `_${result}_`;
+                break;
+            case "strike":
+                result = `~${result}~`;
+                break;
+            case "code":
+                result = `\`${result}\``;
+                break;
+            case "link":
+                link = m.attrs ? m.attrs.href : undefined;
+                break;
+        }
+    });
+    return leading + (link ? `<${link}|${result}>` : result) + trailing;
+}
+
+/**
+ * Inline tokens, in order of precedence: inline code, links, bold, italic, strike-through
+ */
+const InlinePattern = /`([^`]+)`|<([^>|\s]+)(?:\|([^>]+))?>|\*([^*\s](?:[^*]*[^*\s])?)\*|_([^_\s](?:[^_]*[^_\s])?)_|~([^~\s](?:[^~]*[^~\s])?)~/;
+
+function linesToInline(lines: string[]): AdfNode[] {
+    const nodes: AdfNode[] = [];
+    lines.forEach((l, i) => {
+        if (i > 0) {
+            nodes.push({type: "hardBreak"});
+        }
+        nodes.push(...parseInline(l));
+    });
+    return nodes;
+}
+
+function parseInline(text: string, marks: AdfMark[] = []): AdfNode[] {
+    const nodes: AdfNode[] = [];
+    let remaining = text;
+    while (remaining.length > 0) {
+        const match = InlinePattern.exec(remaining);
+        if (!match) {
+            nodes.push(textNode(remaining, marks));
+            break;
+        }
+
+        if (match.index > 0) {
+            nodes.push(textNode(remaining.slice(0, match.index), marks));
+        }
+
+        const [, code, href, label, bold, italic, strike] = match;
+        if (code !== undefined) {
+            nodes.push(textNode(code, [{type: "code"}]));
+        } else if (href !== undefined) {
+            const url = unescapeSlack(href);
+            nodes.push(...parseInline(label !== undefined ? label : url, [...marks, {type: "link", attrs: {href: url}}]));
+        } else if (bold !== undefined) {
+            nodes.push(...parseInline(bold, [...marks, {type: "strong"}]));
+        } else if (italic !== undefined) {
+            nodes.push(...parseInline(italic, [...marks, {type: "em"}]));
+        } else if (strike !== undefined) {
+            nodes.push(...parseInline(strike, [...marks, {type: "strike"}]));
+        }
+        remaining = remaining.slice(match.index + match[0].length);
+    }
+    return nodes.filter(n => n.text !== "");
+}
+
+function textNode(text: string, marks: AdfMark[]): AdfNode {
+    return marks.length > 0 ? {type: "text", text: unescapeSlack(text), marks} : {type: "text", text: unescapeSlack(text)};
+}
+
+function unescapeSlack(text: string): string {
+    return text.replace(/&lt;/g, "<").replace(/&gt;/g, ">").replace(/&amp;/g, "&");
+}
@@ -27,39 +27,51 @@ import {
     JiraPreference,
 } from "../cache/lookup";
 import { queryJiraChannelPrefs } from "../commands/configureChannelPrefs";
+import { findJiraInstanceByUrl } from "../instances";
 import {
     getJiraDetails,
     getJiraIssueRepos,
 } from "../jiraDataLookup";
 import * as jiraTypes from "../jiraDefs";
 import { buildSelfUrl } from "../shared";
+import { matchesJqlFilter } from "./jqlFilter";
+import {
+    notifiesField,
+    notifiesIssueType,
+} from "./notifyPrefs";
 
 /**
  * Return all channels that are mapped to this project
  * @param {HandlerContext} ctx
  * @param {string} projectId This project ID, ie 10000.
+ * @param {string} instance The name of the JIRA instance the project belongs to
  * @returns {string[]} Array of channel names
  */
-const getProjectChannels = async (ctx: HandlerContext, projectId: string): Promise<string[]> => {
+const getProjectChannels = async (ctx: HandlerContext, projectId: string, instance: string): Promise<string[]> => {
     const projectChannels =
-        await cachedJiraMappingLookup(ctx, {projectId});
+        await cachedJiraMappingLookup(ctx, {projectId, instance});
     return projectChannels.filter(c => c.projectId && !c.componentId).map(v => v.channel);
 };
 
+export interface JiraProjectMap {
+    projectId: string;
+    instance?: string;
+}
+
 /**
  * Get all projects that are mapped to  this channel
  * @param {HandlerContext} ctx
  * @param {string} channel
- * @returns {string[]} Array of project ids
+ * @returns {JiraProjectMap[]} Array of project ids (and the instance they belong to)
  */
 export const getMappedProjectsbyChannel = async (
     ctx: HandlerContext,
     channel: string,
-): Promise<string[]> => {
+): Promise<JiraProjectMap[]> => {
     const projects =
         await cachedJiraMappingLookup(ctx, {channel});
     if (projects && projects.length > 0) {
-        return projects.filter(c => c.projectId && !c.componentId).map(f => f.projectId);
+        return projects.filter(c => c.projectId && !c.componentId).map(f => ({projectId: f.projectId, instance: f.instance}));
     } else {
         return [];
     }
@@ -68,6 +80,7 @@ export const getMappedProjectsbyChannel = async (
 export interface JiraProjectComponentMap {
     componentId: string;
     projectId: string;
+    instance?: string;
 }
 
 /**
@@ -83,7 +96,7 @@ export const getMappedComponentsbyChannel = async (
     const components = await cachedJiraMappingLookup(ctx, {channel});
     if (components && components.length > 0) {
         return components.map<JiraProjectComponentMap>(
-            c => ({componentId: c.componentId, projectId: c.projectId})).filter(ec => ec.componentId !== undefined);
+            c => ({componentId: c.componentId, projectId: c.projectId, instance: c.instance})).filter(ec => ec.componentId !== undefined);
     } else {
         return [];
     }
@@ -94,16 +107,18 @@ export const getMappedComponentsbyChannel = async (
  * @param {HandlerContext} ctx
  * @param {string} projectId The id of the project the components to search for reside in
  * @param {string[]} componentIds An array of component ids to search for channels for
+ * @param {string} instance The name of the JIRA instance the project belongs to
  * @returns {string[]} an array of the channel names
  */
 const getComponentChannels = async (
     ctx: HandlerContext,
     projectId: string,
     componentIds: string[],
+    instance: string,
 ): Promise<string[]> => {
     const componentChannels: string[] = [];
     await Promise.all(componentIds.map(async c => {
-        const result = await cachedJiraMappingLookup(ctx, {projectId, componentId: c});
+        const result = await cachedJiraMappingLookup(ctx, {projectId, componentId: c, instance});
         componentChannels.push(...result.map(res => res.channel));
     }));
     return componentChannels;
@@ -122,9 +137,10 @@ export const jiraChannelLookup = async (
     ): Promise<string[]> => {
 
     let projectChannels: string[];
-    const issueDetail = await getJiraDetails<jiraTypes.Issue>(buildSelfUrl(event.issue.id) + "?expand=changelog", true, 30);
+    const instance = findJiraInstanceByUrl(event.issue.self).name;
+    const issueDetail = await getJiraDetails<jiraTypes.Issue>(buildSelfUrl(event.issue.id, instance) + "?expand=changelog", true, 30);
     if (event && event.hasOwnProperty("issue") && event.issue) {
-        projectChannels = await getProjectChannels(ctx, issueDetail.fields.project.id);
+        projectChannels = await getProjectChannels(ctx, issueDetail.fields.project.id, instance);
         logger.debug(`JIRA jiraChannelLookup => project channels ${JSON.stringify(projectChannels)}`);
     } else {
         logger.debug(`JIRA jiraChannelLookup => project id could not be determined`);
@@ -133,7 +149,8 @@ export const jiraChannelLookup = async (
 
     let componentChannels: string[];
     if (issueDetail.fields.components.length > 0) {
-        componentChannels = await getComponentChannels(ctx, issueDetail.fields.project.id, issueDetail.fields.components.map(c => c.id));
+        componentChannels = await getComponentChannels(
+            ctx, issueDetail.fields.project.id, issueDetail.fields.components.map(c => c.id), instance);
         logger.debug(`JIRA jiraChannelLookup => component channels ${JSON.stringify(componentChannels)}`);
     }
 
@@ -149,7 +166,7 @@ export const jiraChannelLookup = async (
 
     if (configurationValue<boolean>("sdm.jira.useDynamicChannels", true)) {
         let jiraDynamicallyLinkedChannels: string[] = [];
-        const repos = await getJiraIssueRepos(event.issue.id);
+        const repos = await getJiraIssueRepos(event.issue.id, instance);
         if (repos) {
             jiraDynamicallyLinkedChannels = await findChannelsByRepos(ctx, repos);
         }
@@ -164,9 +181,20 @@ export const jiraChannelLookup = async (
     return channels;
 };
 
+/**
+ * Determine if a channel is notified of the changes in an event, for checks that notify changes
+ */
+function notifiesChanges(prefs: JiraPreference, event: types.OnJiraIssueEvent.JiraIssue, check: string): boolean {
+    if (!["issueState", "issueStatus"].includes(check) || !event.changelog || !event.changelog.items) {
+        return true;
+    }
+    return event.changelog.items.some(i => notifiesField(prefs, i.field));
+}
+
 /**
  * Parse an array of JIRA channel preferences for a given "check" (aka preference) and determine which channels have this notification enabled.
- * Return only the channels that have subscribed to events of this type.
+ * Return only the channels that have subscribed to events of this type, and whose filter (if any) the issue matches.  For changes,
+ * at least one of the changed fields must be one the channel is notified of.
  *
  * @param {JiraPreference[]} channels
  * @param {OnJiraIssueEvent.JiraIssue} event
@@ -178,22 +206,27 @@ export const jiraParseChannels = async (
     event: types.OnJiraIssueEvent.JiraIssue,
     check: string,
 ): Promise<JiraPreference[]> => {
-    const issueDetail = await getJiraDetails<jiraTypes.Issue>(buildSelfUrl(event.issue.id) + "?expand=changelog", true, 30);
-    const notify = channels.map(c => {
+    const instance = findJiraInstanceByUrl(event.issue.self).name;
+    const issueDetail = await getJiraDetails<jiraTypes.Issue>(buildSelfUrl(event.issue.id, instance) + "?expand=changelog", true, 30);
+    const notify = await Promise.all(channels.map(async c => {
         if (
             issueDetail &&
             issueDetail.hasOwnProperty("fields") &&
             _.get(c, check, undefined) === true &&
-            _.get(c, issueDetail.fields.issuetype.name.toLowerCase().replace("-", ""), undefined) === true
+            notifiesIssueType(c, issueDetail.fields.issuetype) &&
+            notifiesChanges(c, event, check)
         ) {
-            return c;
+            if (await matchesJqlFilter(c.jql, issueDetail, instance)) {
+                return c;
+            }
+            logger.debug(`JIRA jiraParseChannels: Not including notify for channel ${c.channel}, ${event.issue.key} does not match ${c.jql}`);
         } else {
             logger.debug(
                 `JIRA jiraParseChannels: Not including notify for channel ${c.channel},` +
                 ` it does not have ${check} and ${issueDetail.fields.issuetype.name} enabled`);
         }
         return undefined;
-    });
+    }));
 
     return notify.filter(n => n !== undefined);
 };
@@ -0,0 +1,233 @@
+/*
+ * Copyright © 2019 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { logger } from "@atomist/automation-client";
+import { Option } from "@atomist/automation-client/lib/metadata/automationMetadata";
+import {
+    CommandListenerInvocation,
+    ParametersObject,
+    SdmContext,
+} from "@atomist/sdm";
+import { getJiraInstance } from "../instances";
+import { getJiraDetails } from "../jiraDataLookup";
+import { User } from "../jiraDefs";
+import {
+    buildJiraUserField,
+    convertSlackToJiraText,
+} from "../shared";
+
+/**
+ * Chat select menus are limited to 100 options
+ */
+const MaxOptions = 100;
+
+/**
+ * Fields JIRA populates itself when they are omitted, reporter defaults to the authenticated user
+ */
+const DefaultedFields = ["reporter"];
+
+export interface JiraCreateMetaFieldSchema {
+    type: string;
+    items?: string;
+    system?: string;
+    custom?: string;
+    customId?: number;
+}
+
+export interface JiraCreateMetaField {
+    required: boolean;
+    name: string;
+    key?: string;
+    schema: JiraCreateMetaFieldSchema;
+    hasDefaultValue?: boolean;
+    allowedValues?: Array<{id: string, name?: string, value?: string}>;
+    autoCompleteUrl?: string;
+}
+
+export interface JiraCreateMetaFields {
+    [fieldId: string]: JiraCreateMetaField;
+}
+
+interface JiraCreateMeta {
+    projects: Array<{
+        id: string;
+        key: string;
+        issuetypes: Array<{
+            id: string;
+            name: string;
+            fields: JiraCreateMetaFields;
+        }>;
+    }>;
+}
+
+/**
+ * Retrieve the fields available when creating an issue of the supplied type in a project
+ *
+ * @param {string} projectId
+ * @param {string} issueType The name of the issue type
+ * @param {SdmContext} ctx
+ * @param {string} instance The name of the JIRA instance, defaults to the default instance
+ * @returns {{projectKey: string, fields: JiraCreateMetaFields}}
+ * @throws {Error} If the issue type can't be created in this project
+ */
+export async function getJiraCreateMeta(
+    projectId: string,
+    issueType: string,
+    ctx: SdmContext,
+    instance?: string,
+): Promise<{projectKey: string, fields: JiraCreateMetaFields}> {
+    const lookupUrl = `${getJiraInstance(instance).apiUrl}/issue/createmeta` +
+        `?projectIds=${encodeURIComponent(projectId)}&issuetypeNames=${encodeURIComponent(issueType)}&expand=projects.issuetypes.fields`;
+    const meta = await getJiraDetails<JiraCreateMeta>(lookupUrl, true, 300, ctx, [], "createmeta");
+    if (!meta.projects || meta.projects.length === 0 || meta.projects[0].issuetypes.length === 0) {
+        throw new Error(`Issues of type ${issueType} cannot be created in this project`);
+    }
+    return {projectKey: meta.projects[0].key, fields: meta.projects[0].issuetypes[0].fields};
+}
+
+/**
+ * Prompt for every required field that hasn't already been supplied and that JIRA won't default, returning the values in the format
+ * expected by the create issue API.  Fields with allowed values (options, priorities, versions etc) and user fields are presented as
+ * select menus, other values are validated as they are entered.
+ *
+ * @param {CommandListenerInvocation} ci
+ * @param {string} projectKey
+ * @param {JiraCreateMetaFields} fields From getJiraCreateMeta
+ * @param {string[]} supplied The ids of fields the caller has already populated, ie summary
+ * @param {string} instance The name of the JIRA instance, defaults to the default instance
+ * @returns {{[fieldId: string]: any}}
+ * @throws {Error} If a required field can't be populated from chat
+ */
+export async function promptForRequiredFields(
+    ci: CommandListenerInvocation<any>,
+    projectKey: string,
+    fields: JiraCreateMetaFields,
+    supplied: string[],
+    instance?: string,
+): Promise<{[fieldId: string]: any}> {
+    const required = requiredFields(fields).filter(id => !supplied.includes(id));
+    if (required.length === 0) {
+        return {};
+    }
+    logger.debug(`JIRA promptForRequiredFields: Prompting for required fields ${JSON.stringify(required)}`);
+
+    const unsupported = required.filter(id => !isSupportedField(fields[id]));
+    if (unsupported.length > 0) {
+        throw new Error(`The following required fields cannot be set from chat: ${unsupported.map(id => fields[id].name).join(", ")}`);
+    }
+
+    const users = required.some(id => isUserField(fields[id])) ? await getAssignableUsers(projectKey, ci, instance) : [];
+    const prompts: ParametersObject<any> = {};
+    required.forEach((id, order) => {
+        const field = fields[id];
+        const options = fieldOptions(field, users, instance);
+        prompts[id] = {
+            displayName: `Please ${options ? "select" : "enter"} ${field.name}`,
+            description: `Please ${options ? "select" : "enter"} ${field.name}`,
+            order,
+            ...(options ? {type: {kind: field.schema.type === "array" ? "multiple" : "single", options}} : {pattern: fieldPattern(field)}),
+        };
+    });
+
+    const answers = await ci.promptFor<{[fieldId: string]: string | string[]}>(prompts);
+    const values: {[fieldId: string]: any} = {};
+    required.forEach(id => {
+        values[id] = toFieldValue(fields[id], answers[id], users, instance);
+    });
+    return values;
+}
+
+/**
+ * Confirm every required field has a value before submitting, so the user gets a readable error rather than a JIRA error
+ *
+ * @param {JiraCreateMetaFields} fields From getJiraCreateMeta
+ * @param {any} data The fields of the issue to be created
+ * @returns {string[]} The names of any required fields that are missing
+ */
+export function findMissingRequiredFields(fields: JiraCreateMetaFields, data: any): string[] {
+    return requiredFields(fields)
+        .filter(id => {
+            const value = data[id];
+            return value === undefined || value === null || value === "" || (Array.isArray(value) && value.length === 0);
+        })
+        .map(id => fields[id].name);
+}
+
+function requiredFields(fields: JiraCreateMetaFields): string[] {
+    return Object.keys(fields).filter(id => fields[id].required && !fields[id].hasDefaultValue && !DefaultedFields.includes(id));
+}
+
+function isUserField(field: JiraCreateMetaField): boolean {
+    return field.schema.type === "user" || (field.schema.type === "array" && field.schema.items === "user");
+}
+
+function isSupportedField(field: JiraCreateMetaField): boolean {
+    const type = field.schema.type === "array" ? field.schema.items : field.schema.type;
+    return (field.allowedValues && field.allowedValues.length > 0) ||
+        ["user", "string", "number", "date", "datetime"].includes(type);
+}
+
+function fieldOptions(field: JiraCreateMetaField, users: User[], instance?: string): Option[] | undefined {
+    if (field.allowedValues && field.allowedValues.length > 0) {
+        return field.allowedValues.slice(0, MaxOptions).map(v => ({description: v.name || v.value || v.id, value: v.id}));
+    } else if (isUserField(field)) {
+        return users.map(u => ({description: u.displayName, value: userId(u, instance)}));
+    }
+    return undefined;
+}
+
+function fieldPattern(field: JiraCreateMetaField): RegExp {
+    switch (field.schema.type === "array" ? field.schema.items : field.schema.type) {
+        case "number":
+            return /^-?\d+(\.\d+)?$/;
+        case "date":
+            return /^\d{4}-\d{2}-\d{2}$/;
+        case "datetime":
+            return /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d{3})?)?([+-]\d{2}:?\d{2}|Z)?$/;
+        default:
+            return /[\s\S]+/;
+    }
+}
+
+function toFieldValue(field: JiraCreateMetaField, answer: string | string[], users: User[], instance?: string): any {
+    const answers = (Array.isArray(answer) ? answer : `${answer}`.split(",")).map(a => a.trim()).filter(a => a.length > 0);
+    const toValue = (value: string): any => {
+        if (field.allowedValues && field.allowedValues.length > 0) {
+            return {id: value};
+        } else if (isUserField(field)) {
+            return buildJiraUserField(value, instance);
+        } else if (field.schema.type === "number") {
+            return Number(value);
+        }
+        return value;
+    };
+
+    if (field.schema.type === "array") {
+        return answers.map(toValue);
+    } else if (field.schema.type === "string" && field.schema.custom && field.schema.custom.endsWith(":textarea")) {
+        return convertSlackToJiraText(`${answer}`, instance);
+    }
+    return toValue(Array.isArray(answer) ? answer[0] : `${answer}`);
+}
+
+function userId(user: User, instance?: string): string {
+    return getJiraInstance(instance).apiVersion === 3 ? user.accountId : user.name;
+}
+
+async function getAssignableUsers(projectKey: string, ctx: SdmContext, instance?: string): Promise<User[]> {
+    const lookupUrl = `${getJiraInstance(instance).apiUrl}/user/assignable/search?project=${encodeURIComponent(projectKey)}&maxResults=${MaxOptions}`;
+    return (await getJiraDetails<User[]>(lookupUrl, true, 300, ctx, [], "assignableUsers")).filter(u => u.active !== false);
+}
@@ -0,0 +1,56 @@
+/*
+ * Copyright © 2019 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { promisify } from "util";
+
+// fs.promises and recursive mkdir need node 10.12, the pack supports node 8
+const mkdir = promisify(fs.mkdir);
+const rename = promisify(fs.rename);
+const writeFile = promisify(fs.writeFile);
+
+export const readFile = promisify(fs.readFile);
+
+/**
+ * Create a directory, and any missing parents
+ * @param {string} dir
+ */
+export async function makeDirectory(dir: string): Promise<void> {
+    try {
+        await mkdir(dir);
+    } catch (e) {
+        if (e.code === "EEXIST") {
+            return;
+        } else if (e.code !== "ENOENT" || path.dirname(dir) === dir) {
+            throw e;
+        }
+        await makeDirectory(path.dirname(dir));
+        await makeDirectory(dir);
+    }
+}
+
+/**
+ * Write a file only readable by the SDM's user, creating its directory if needed.  The content is written to a temporary file
+ * that replaces the file, so a crash mid-write can't corrupt it.
+ * @param {string} file
+ * @param {string} content
+ */
+export async function writePrivateFile(file: string, content: string): Promise<void> {
+    await makeDirectory(path.dirname(file));
+    await writeFile(`${file}.tmp`, content, {mode: 0o600});
+    await rename(`${file}.tmp`, file);
+}
@@ -15,13 +15,9 @@
  */
 
 import {
-    configurationValue,
     HandlerResult,
-    HttpClientFactory,
     HttpMethod,
     logger,
-    MappedParameter,
-    MappedParameters,
     Parameter,
     Parameters,
 } from "@atomist/automation-client";
@@ -29,21 +25,19 @@ import {
     CommandHandlerRegistration,
     CommandListenerInvocation,
     ParametersDefinition,
-    slackErrorMessage,
 } from "@atomist/sdm";
 import {
-    getJiraAuth,
-    JiraConfig,
-} from "../../jira";
-import * as types from "../../typings/types";
-import { createJiraResource } from "../commands/shared";
-import { convertEmailtoJiraUser } from "../shared";
+    reportJiraError,
+    reportJiraWriteQueued,
+} from "../commands/shared";
+import {
+    buildSelfUrl,
+    convertSlackToJiraText,
+} from "../shared";
+import { submitJiraWrite } from "../writeQueue";
 
 @Parameters()
 export class CommentOnIssueParams {
-    @MappedParameter(MappedParameters.SlackUserName)
-    public screenName: string;
-
     @Parameter({
         displayable: false,
     })
@@ -51,82 +45,40 @@ export class CommentOnIssueParams {
 
     @Parameter()
     public comment: string;
+
+    @Parameter({
+        displayable: false,
+        required: false,
+    })
+    public instance: string;
 }
 
 export async function commentOnIssueHandler(cli: CommandListenerInvocation<CommentOnIssueParams>): Promise<HandlerResult> {
-    const jiraConfig = configurationValue<object>("sdm.jira") as JiraConfig;
-    const issueUrl = `${jiraConfig.url}/rest/api/2/issue/${cli.parameters.issueId}`;
-    const httpClient = configurationValue<HttpClientFactory>("http.client.factory").create(issueUrl);
+    const issueUrl = buildSelfUrl(cli.parameters.issueId, cli.parameters.instance);
 
     logger.debug(`JIRA commentOnIssueHandler: Issue ID ${cli.parameters.issueId} Data payload => ${JSON.stringify(cli.parameters.comment)}`);
 
-    // Lookup requester
-    let realRequester: string;
-    const requester = await cli.context.graphClient.query<types.GetEmailByChatId.Query, types.GetEmailByChatId.Variables>({
-        name: "GetEmailByChatId",
-        variables: { screenName: cli.parameters.screenName },
-    });
-
-    if ( requester &&
-        requester.hasOwnProperty("ChatId") &&
-        requester.ChatId.length > 0 &&
-        requester.ChatId[0].person.emails.length > 0
-    ) {
-        // Try to find requester
-        await Promise.all(requester.ChatId[0].person.emails.map(async e => {
-            const res = await convertEmailtoJiraUser(e.address);
-            if (res) {
-                realRequester = res;
-            }
-        }));
-    }
-
-    let data: any;
-    if (realRequester) {
-        data = {
-            update: {
-                comment: [{
-                    add: {
-                        body: cli.parameters.comment,
-                        author: {
-                            name: realRequester,
-                        },
-                    },
-                }],
-            },
-        };
-    } else {
-        data = {
-            update: {
-                comment: [{
-                    add: {
-                        body: cli.parameters.comment,
-                    },
-                }],
-            },
-        };
-    }
+    // Comments are authored by whoever we authenticate as, which is the invoking user if they have linked their JIRA account
+    const data = {
+        update: {
+            comment: [{
+                add: {
+                    body: convertSlackToJiraText(cli.parameters.comment, cli.parameters.instance),
+                },
+            }],
+        },
+    };
 
     logger.debug(`JIRA commentOnIssueHandler: Data payload => ${JSON.stringify(data)}`);
-    await httpClient.exchange(
-        issueUrl,
-        {
-            method: HttpMethod.Put,
-            headers: {
-                "Content-Type": "application/json",
-                ...await getJiraAuth(cli),
-            },
-            body: data,
-        },
-    ).catch(async e => {
-        await cli.addressChannels(slackErrorMessage(
-           `Failed to create JIRA Issue Comment` ,
-            "JIRA commentOnIssueHandler: Failed to issue comment with error - " +
-            `(${JSON.stringify(e.response.status)}) ${JSON.stringify(e.response.data)}`,
-            cli.context,
-        ));
-        return { code: 1, message: JSON.stringify(e.response.data)};
-    });
+    try {
+        const res = await submitJiraWrite(
+            {method: HttpMethod.Put, url: issueUrl, data, description: `Comment on JIRA issue ${cli.parameters.issueId}`}, cli);
+        if (res.queued) {
+            return reportJiraWriteQueued(cli, `JIRA Issue Comment Queued`);
+        }
+    } catch (e) {
+        return reportJiraError(cli, `Failed to create JIRA Issue Comment`, e);
+    }
 
     return {code: 0};
 }
@@ -140,7 +92,16 @@ export const commentOnIssue: CommandHandlerRegistration<CommentOnIssueParams> =
 
 export async function setIssueStatusHandler(cli: CommandListenerInvocation<{transitionId: string, selfUrl: string}>): Promise<HandlerResult> {
     const data = {transition: {id: cli.parameters.transitionId}};
-    await createJiraResource(cli.parameters.selfUrl, data, undefined, cli);
+    const issueId = cli.parameters.selfUrl.replace(/\/transitions$/, "").split("/").pop();
+    try {
+        const res = await submitJiraWrite(
+            {method: HttpMethod.Post, url: cli.parameters.selfUrl, data, description: `Change the status of JIRA issue ${issueId}`}, cli);
+        if (res.queued) {
+            return reportJiraWriteQueued(cli, `JIRA Issue Status Change Queued`);
+        }
+    } catch (e) {
+        return reportJiraError(cli, `Failed to set JIRA Issue Status`, e);
+    }
     return { code: 0};
 }
 
@@ -0,0 +1,255 @@
+/*
+ * Copyright © 2019 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+    configurationValue,
+    HandlerContext,
+    logger,
+} from "@atomist/automation-client";
+import { PreferenceStoreFactory } from "@atomist/sdm";
+import * as slack from "@atomist/slack-messages";
+import _ = require("lodash");
+import { OnJiraIssueEvent } from "../../typings/types";
+import { JiraPreference } from "../cache/lookup";
+import { issueCacheTag } from "../cache/tags";
+import {
+    JiraInstance,
+    toInstanceApiUrl,
+} from "../instances";
+import { getJiraDetails } from "../jiraDataLookup";
+import * as jiraTypes from "../jiraDefs";
+import { convertJiraTextToSlack } from "../shared";
+import { upperCaseFirstLetter } from "./msgHelpers";
+import { notifiesField } from "./notifyPrefs";
+
+/**
+ * A single event on an issue, shown as one line on the issue's card
+ */
+export interface JiraIssueActivity {
+    /**
+     * The webhook timestamp of the event, in milliseconds since the epoch
+     */
+    ts: string;
+
+    /**
+     * The channel preference that subscribes to this kind of event, ie issueComment.  Channels only see the activity they subscribe to.
+     */
+    check: string;
+    text: string;
+
+    /**
+     * For changes, the description of each changed field.  Channels are only shown the changes to fields they are notified of.
+     */
+    changes?: Array<{field: string, text: string}>;
+}
+
+export interface JiraIssueCard {
+    /**
+     * Most recent activity, oldest first
+     */
+    activity: JiraIssueActivity[];
+}
+
+/**
+ * Number of activity lines kept for each issue, older lines are dropped from the card
+ */
+const MaxIssueCardActivity = 10;
+
+/**
+ * How long (ms) the activity of an issue is kept after its last event
+ */
+const IssueCardTtl = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Maximum length of the comment text quoted in an activity line
+ */
+const MaxActivityCommentLength = 150;
+
+/**
+ * The id of an issue's card.  Every event on the issue re-writes this message in each channel, rather than posting a new one,
+ * and threaded replies are sent to the thread of this message.
+ *
+ * @param {JiraInstance} jiraConfig The JIRA instance the issue belongs to
+ * @param {string} key The key of the issue, ie PROJ-1
+ */
+export function issueCardMessageId(jiraConfig: JiraInstance, key: string): string {
+    return `jira/issue/${jiraConfig.name}/${key}`;
+}
+
+/**
+ * Describe an event as a single line of activity
+ *
+ * @param {OnJiraIssueEvent.JiraIssue} event
+ * @param {jiraTypes.Issue} issueDetail
+ * @returns {JiraIssueActivity} undefined if the event isn't shown on issue cards
+ */
+export async function describeIssueActivity(
+    event: OnJiraIssueEvent.JiraIssue,
+    issueDetail: jiraTypes.Issue,
+): Promise<JiraIssueActivity | undefined> {
+    const ts = event.timestamp;
+    if (event.webhookEvent === "jira:issue_deleted") {
+        const userDetail = await getJiraDetails<jiraTypes.User>(event.user.self, true, undefined, undefined, [issueCacheTag(event.issue.id)]);
+        return {ts, check: "issueDeleted", text: `\u{1F5D1} Deleted by @${userDetail.displayName}`};
+    } else if (event.issue_event_type_name === "issue_created") {
+        return {ts, check: "issueCreated", text: `\u{2728} Created by @${issueDetail.fields.reporter.displayName}`};
+    } else if (event.comment !== null && event.comment.self !== null) {
+        const comment = await getJiraDetails<jiraTypes.Comment>(toInstanceApiUrl(event.comment.self), true, 30);
+        const text = convertJiraTextToSlack(comment.body).replace(/\s+/g, " ").trim();
+        return {
+            ts,
+            check: "issueComment",
+            text: `\u{1F4AC} @${comment.author.displayName} ${event.issue_event_type_name === "issue_comment_edited" ? "edited a comment" : "commented"}: ` +
+                (text.length > MaxActivityCommentLength ? `${text.slice(0, MaxActivityCommentLength)}\u{2026}` : text),
+        };
+    } else if (event.changelog !== null && ["issue_generic", "issue_updated", "issue_assigned"].includes(event.issue_event_type_name)) {
+        const changes = event.changelog.items.map(c => {
+            if (c.field === "description") {
+                return {field: c.field, text: `Description updated`};
+            } else if (c.field === "Component") {
+                return {field: c.field, text: c.toString === null ? `Component ${c.fromString} removed` : `Component ${c.toString} added`};
+            } else {
+                return {
+                    field: c.field,
+                    text: `${upperCaseFirstLetter(c.field)}: ${c.fromString !== null ? c.fromString : "Not set"} \u{2192} ` +
+                        `${c.toString !== null ? c.toString : "Not set"}`,
+                };
+            }
+        });
+        return {
+            ts,
+            check: event.issue_event_type_name === "issue_generic" ? "issueStatus" : "issueState",
+            text: formatChanges(changes),
+            changes,
+        };
+    }
+    return undefined;
+}
+
+function formatChanges(changes: Array<{field: string, text: string}>): string {
+    return `\u{270F} ${changes.map(c => c.text).join(", ")}`;
+}
+
+/**
+ * The activity shown on a channel's card: the kinds of activity the channel subscribes to, with changes to fields the channel
+ * isn't notified of left out
+ *
+ * @param {JiraIssueActivity[]} activity
+ * @param {JiraPreference} prefs The preferences of the channel
+ * @returns {JiraIssueActivity[]}
+ */
+export function channelIssueActivity(activity: JiraIssueActivity[], prefs: JiraPreference): JiraIssueActivity[] {
+    return activity
+        .filter(a => _.get(prefs, a.check, false) === true)
+        .map(a => {
+            if (!a.changes) {
+                return a;
+            }
+            const changes = a.changes.filter(c => notifiesField(prefs, c.field));
+            return changes.length > 0 ? {...a, text: formatChanges(changes), changes} : undefined;
+        })
+        .filter(a => a !== undefined);
+}
+
+function issueCardKey(workspaceId: string, jiraConfig: JiraInstance, key: string): string {
+    return `${workspaceId}-issuecard-${jiraConfig.name}-${key}`;
+}
+
+/**
+ * Issue card updates in progress in this process, by the preference key of the card
+ */
+const IssueCardUpdates = new Map<string, Promise<void>>();
+
+/**
+ * Run update once the updates of the same card already in progress in this process have finished, so events of an issue
+ * handled at the same time don't overwrite each other's activity.  Updates made by other replicas are not serialized.
+ */
+async function serializeIssueCardUpdate<T>(hashKey: string, update: () => Promise<T>): Promise<T> {
+    const previous = IssueCardUpdates.get(hashKey) || Promise.resolve();
+    const pending = previous.then(update);
+    const done = pending.then(() => undefined, () => undefined);
+    IssueCardUpdates.set(hashKey, done);
+    try {
+        return await pending;
+    } finally {
+        if (IssueCardUpdates.get(hashKey) === done) {
+            IssueCardUpdates.delete(hashKey);
+        }
+    }
+}
+
+/**
+ * Add an event to the activity of an issue.  Only the most recent activity is kept, so the work done per event doesn't grow
+ * with the history of the issue.  Updates of an issue are made one at a time.
+ *
+ * @param {HandlerContext} ctx
+ * @param {JiraInstance} jiraConfig The JIRA instance the issue belongs to
+ * @param {string} key The key of the issue
+ * @param {JiraIssueActivity} activity The new activity, undefined to just retrieve the card
+ * @returns {JiraIssueCard} The card of the issue
+ */
+export async function recordIssueActivity(
+    ctx: HandlerContext,
+    jiraConfig: JiraInstance,
+    key: string,
+    activity?: JiraIssueActivity,
+): Promise<JiraIssueCard> {
+    const prefStore = configurationValue<PreferenceStoreFactory>("sdm.preferenceStoreFactory")(ctx);
+    const hashKey = issueCardKey(ctx.workspaceId, jiraConfig, key);
+    return serializeIssueCardUpdate(hashKey, async () => {
+        const card = await prefStore.get<JiraIssueCard>(hashKey, {scope: "JIRAIssueCards", defaultValue: {activity: []}});
+        if (!activity || card.activity.some(a => a.ts === activity.ts && a.text === activity.text)) {
+            // Redelivered webhooks are only recorded once
+            return card;
+        }
+
+        const updated = {
+            ...card,
+            activity: [...card.activity, activity].sort((a, b) => Number(a.ts) - Number(b.ts)).slice(-MaxIssueCardActivity),
+        };
+        await prefStore.put<JiraIssueCard>(hashKey, updated, {scope: "JIRAIssueCards", ttl: IssueCardTtl});
+        logger.debug(`JIRA recordIssueActivity: Recorded ${activity.check} activity for ${key}, ${updated.activity.length} entries`);
+        return updated;
+    });
+}
+
+/**
+ * Format activity as lines of the issue card, each prefixed with when it happened (in the reader's timezone)
+ *
+ * @param {JiraIssueActivity[]} activity
+ * @returns {string}
+ */
+export function formatIssueActivity(activity: JiraIssueActivity[]): string {
+    return activity.map(a => {
+        const when = new Date(Number(a.ts));
+        return `<!date^${Math.floor(when.getTime() / 1000)}^{date_short_pretty} {time}|${when.toISOString()}> ${a.text}`;
+    }).join("\n");
+}
+
+/**
+ * The header of an issue card, linking to the issue
+ *
+ * @param {OnJiraIssueEvent.JiraIssue} event
+ * @param {jiraTypes.Issue} issueDetail
+ * @param {JiraInstance} jiraConfig
+ * @returns {string}
+ */
+export function issueCardTitle(event: OnJiraIssueEvent.JiraIssue, issueDetail: jiraTypes.Issue, jiraConfig: JiraInstance): string {
+    const url = `${jiraConfig.url}/browse/${event.issue.key}`;
+    return event.webhookEvent === "jira:issue_deleted" ?
+        slack.url(url, `JIRA Issue ${event.issue.key} deleted`) :
+        `JIRA Issue ` + slack.url(url, `${event.issue.key}: ${issueDetail.fields.summary}`);
+}
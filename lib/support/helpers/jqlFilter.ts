@@ -0,0 +1,220 @@
+/*
+ * Copyright © 2019 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { logger } from "@atomist/automation-client";
+import { SdmContext } from "@atomist/sdm";
+import _ = require("lodash");
+import { searchAllIssues } from "../commands/shared";
+import * as jiraTypes from "../jiraDefs";
+
+/**
+ * A single clause of a channel filter, ie priority in (Blocker, Critical)
+ */
+export interface JqlClause {
+    field: string;
+
+    /**
+     * True for != and not in
+     */
+    negate: boolean;
+    values: string[];
+}
+
+interface JqlToken {
+    text: string;
+    quoted: boolean;
+}
+
+/**
+ * Fields that can be evaluated locally, and the values of each that a clause may match (names and ids, as JQL accepts either)
+ */
+const LocalJqlFields: {[field: string]: (fields: jiraTypes.Fields) => string[]} = {
+    component: f => _.flatMap(f.components || [], c => [c.name, c.id]),
+    issuetype: f => f.issuetype ? [f.issuetype.name, f.issuetype.id] : [],
+    labels: f => f.labels || [],
+    priority: f => f.priority ? [f.priority.name, f.priority.id] : [],
+    project: f => f.project ? [f.project.key, f.project.name, f.project.id] : [],
+    resolution: f => f.resolution ? [f.resolution.name, f.resolution.id] : [],
+    status: f => f.status ? [f.status.name, f.status.id] : [],
+    type: f => f.issuetype ? [f.issuetype.name, f.issuetype.id] : [],
+};
+
+/**
+ * Split a JQL clause into words, quoted strings, operators and punctuation
+ * @returns {JqlToken[]} undefined if the clause contains anything else
+ */
+function tokenizeJql(jql: string): JqlToken[] | undefined {
+    const tokenPattern = /\s*("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|!=|=|\(|\)|,|[^\s=!~<>(),"']+)\s*/y;
+    const tokens: JqlToken[] = [];
+    while (tokenPattern.lastIndex < jql.length) {
+        const match = tokenPattern.exec(jql);
+        if (!match) {
+            return undefined;
+        }
+        const quoted = /^["']/.test(match[1]);
+        tokens.push({text: quoted ? match[1].slice(1, -1).replace(/\\(.)/g, "$1") : match[1], quoted});
+    }
+    return tokens;
+}
+
+function isWord(tokens: JqlToken[], i: number, word: string): boolean {
+    return i < tokens.length && !tokens[i].quoted && tokens[i].text.toLowerCase() === word;
+}
+
+/**
+ * Parse the operator of a clause starting at tokens[i]
+ * @returns The operator, and the index of the token after it.  undefined if it isn't =, !=, in or not in
+ */
+function parseJqlOperator(tokens: JqlToken[], i: number): {negate: boolean, list: boolean, next: number} | undefined {
+    if (isWord(tokens, i, "=") || isWord(tokens, i, "!=")) {
+        return {negate: tokens[i].text === "!=", list: false, next: i + 1};
+    } else if (isWord(tokens, i, "in")) {
+        return {negate: false, list: true, next: i + 1};
+    } else if (isWord(tokens, i, "not") && isWord(tokens, i + 1, "in")) {
+        return {negate: true, list: true, next: i + 2};
+    }
+    return undefined;
+}
+
+/**
+ * Parse a single value, or a parenthesized list of values, starting at tokens[i]
+ * @returns The values, and the index of the token after them.  undefined if they are malformed
+ */
+function parseJqlValues(tokens: JqlToken[], i: number, list: boolean): {values: string[], next: number} | undefined {
+    const isValue = (j: number) => j < tokens.length && (tokens[j].quoted || !/^([(),=]|!=)$/.test(tokens[j].text));
+    if (!list) {
+        // is EMPTY, and functions such as currentUser(), are left to JIRA
+        return isValue(i) && !["empty", "null"].includes(tokens[i].text.toLowerCase()) && !isWord(tokens, i + 1, "(") ?
+            {values: [tokens[i].text], next: i + 1} :
+            undefined;
+    }
+
+    if (!isWord(tokens, i, "(")) {
+        return undefined;
+    }
+    const values: string[] = [];
+    let next = i;
+    do {
+        // Skip the opening parenthesis or separating comma
+        next++;
+        if (!isValue(next)) {
+            return undefined;
+        }
+        values.push(tokens[next].text);
+        next++;
+    } while (isWord(tokens, next, ","));
+    return isWord(tokens, next, ")") ? {values, next: next + 1} : undefined;
+}
+
+/**
+ * Parse a channel filter made of simple field clauses joined by AND, ie priority in (Blocker, Critical) AND labels = frontend.
+ * Supported fields are component, issuetype (or type), labels, priority, project, resolution and status, with the =, !=, in and
+ * not in operators.
+ *
+ * @param {string} jql
+ * @returns {JqlClause[]} undefined if the filter uses anything else, and has to be evaluated by JIRA
+ */
+export function parseJqlFilter(jql: string): JqlClause[] | undefined {
+    const tokens = tokenizeJql(jql.trim());
+    if (!tokens || tokens.length === 0) {
+        return undefined;
+    }
+
+    const clauses: JqlClause[] = [];
+    let i = 0;
+    while (i < tokens.length) {
+        if (clauses.length > 0) {
+            if (!isWord(tokens, i, "and")) {
+                return undefined;
+            }
+            i++;
+        }
+
+        if (i >= tokens.length || tokens[i].quoted || !LocalJqlFields.hasOwnProperty(tokens[i].text.toLowerCase())) {
+            return undefined;
+        }
+        const field = tokens[i].text.toLowerCase();
+        const operator = parseJqlOperator(tokens, i + 1);
+        const values = operator ? parseJqlValues(tokens, operator.next, operator.list) : undefined;
+        if (!values) {
+            return undefined;
+        }
+        clauses.push({field, negate: operator.negate, values: values.values});
+        i = values.next;
+    }
+    return clauses;
+}
+
+/**
+ * Evaluate parsed clauses against an issue.  As in JIRA, names are compared without regard to case and a clause on a field
+ * with no value never matches (even != and not in).
+ *
+ * @param {JqlClause[]} clauses
+ * @param {jiraTypes.Issue} issue
+ * @returns {boolean} True if the issue matches every clause
+ */
+export function evaluateJqlFilter(clauses: JqlClause[], issue: jiraTypes.Issue): boolean {
+    return clauses.every(c => {
+        const actual = LocalJqlFields[c.field](issue.fields).filter(v => !!v).map(v => `${v}`.toLowerCase());
+        if (actual.length === 0) {
+            return false;
+        }
+        const found = c.values.some(v => actual.includes(v.toLowerCase()));
+        return c.negate ? !found : found;
+    });
+}
+
+/**
+ * Determine if an issue matches a channel's filter.  Simple filters are evaluated locally, anything else is evaluated by
+ * searching JIRA for the issue with the filter applied.
+ *
+ * A filter that JIRA can't evaluate matches every issue, so a broken filter doesn't silently stop a channel's notifications.
+ *
+ * @param {string} jql The filter, undefined or empty if the channel has none
+ * @param {jiraTypes.Issue} issue
+ * @param {string} instance The name of the JIRA instance the issue belongs to
+ * @returns {boolean}
+ */
+export async function matchesJqlFilter(jql: string, issue: jiraTypes.Issue, instance: string): Promise<boolean> {
+    if (!jql || jql.trim().length === 0) {
+        return true;
+    }
+
+    const clauses = parseJqlFilter(jql);
+    if (clauses) {
+        return evaluateJqlFilter(clauses, issue);
+    }
+
+    try {
+        const found = await searchAllIssues(`issue = ${issue.key} AND (${jql})`, {fields: ["key"], pageSize: 1, limit: 1, instance});
+        return found.length > 0;
+    } catch (e) {
+        logger.error(`JIRA matchesJqlFilter: Failed to evaluate filter ${jql} for ${issue.key}, ignoring filter.  Error => ${e}`);
+        return true;
+    }
+}
+
+/**
+ * Check that JIRA accepts a filter, by running it as a search
+ *
+ * @param {string} jql
+ * @param {SdmContext} ctx Used to search as the user setting the filter
+ * @param {string} instance The name of the JIRA instance to check against, defaults to the default instance
+ * @throws {JiraApiError} If JIRA rejects the filter
+ */
+export async function validateJqlFilter(jql: string, ctx: SdmContext, instance?: string): Promise<void> {
+    await searchAllIssues(`(${jql})`, {fields: ["key"], pageSize: 1, limit: 1, ctx, instance});
+}
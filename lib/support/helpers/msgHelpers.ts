@@ -14,16 +14,18 @@
  * limitations under the License.
  */
 
-import {
-    configurationValue,
-    logger,
-} from "@atomist/automation-client";
+import { logger } from "@atomist/automation-client";
 import * as slack from "@atomist/slack-messages";
-import jira2slack = require("jira2slack");
-import { JiraConfig } from "../../jira";
 import { OnJiraIssueEvent } from "../../typings/types";
+import { JiraPreference } from "../cache/lookup";
+import {
+    findJiraInstanceByUrl,
+    toInstanceApiUrl,
+} from "../instances";
 import { getJiraDetails } from "../jiraDataLookup";
 import * as jiraTypes from "../jiraDefs";
+import { convertJiraTextToSlack } from "../shared";
+import { notifiesField } from "./notifyPrefs";
 
 export const upperCaseFirstLetter = (word: string): string => {
     return word.charAt(0).toUpperCase() + word.slice(1);
@@ -41,16 +43,16 @@ export const prepareIssueCommentedMessage = async (
         event.comment !== null &&
         event.comment.self !== null
     ) {
-        const comment = await getJiraDetails<jiraTypes.Comment>(event.comment.self, true, 30);
+        const comment = await getJiraDetails<jiraTypes.Comment>(toInstanceApiUrl(event.comment.self), true, 30);
         const title = event.issue_event_type_name === "issue_comment_edited" ? `New Comment (edited)` : `New Comment`;
         return [
             {
                 pretext: slack.bold(title),
                 color: "#45B254",
-                author_name: `@${comment.author.name}`,
+                author_name: `@${comment.author.displayName}`,
                 author_icon: comment.author.avatarUrls["48x48"],
-                fallback: `New comment on issue ${issueDetail.key} by ${comment.author.name}`,
-                text: jira2slack.toSlack(comment.body),
+                fallback: `New comment on issue ${issueDetail.key} by ${comment.author.displayName}`,
+                text: convertJiraTextToSlack(comment.body),
             },
         ];
     } else {
@@ -58,8 +60,16 @@ export const prepareIssueCommentedMessage = async (
     }
 };
 
+/**
+ * Describe each changed field of an issue
+ *
+ * @param {OnJiraIssueEvent.JiraIssue} event
+ * @param {JiraPreference} prefs The preferences of the channel the message is for, only the fields it is notified of are included
+ * @returns {slack.Attachment[]} Empty if there are no changes to include
+ */
 export const prepareStateChangeMessage = async (
     event: OnJiraIssueEvent.JiraIssue,
+    prefs?: JiraPreference,
 ): Promise<slack.Attachment[]> => {
     if (
         event.hasOwnProperty("changelog") &&
@@ -67,12 +77,12 @@ export const prepareStateChangeMessage = async (
         event.webhookEvent !== "jira:issue_created"
     ) {
         const fields: slack.Field[] = [];
-        event.changelog.items.forEach(c => {
+        event.changelog.items.filter(c => !prefs || notifiesField(prefs, c.field)).forEach(c => {
             if (c.field === "description") {
                 fields.push(
                     {
                         title: `Description Updated`,
-                        value: jira2slack.toSlack(c.toString),
+                        value: convertJiraTextToSlack(c.toString),
                         short: false,
                     },
                 );
@@ -100,6 +110,9 @@ export const prepareStateChangeMessage = async (
                 );
             }
         });
+        if (fields.length === 0) {
+            return [];
+        }
 
         return [{
             fallback: `New state change on issue ${event.issue.key}`,
@@ -110,83 +123,62 @@ export const prepareStateChangeMessage = async (
     }
 };
 
-export const prepareIssueDeletedMessage = async (
-    event: OnJiraIssueEvent.JiraIssue): Promise<slack.Attachment[]> => {
-    if (event.webhookEvent === "jira:issue_deleted") {
-        const userDetail = await getJiraDetails<jiraTypes.User>(event.user.self, true);
-        return [
+/**
+ * Describe the detail of an issue: its type, priority, status, people, components and description
+ *
+ * @param {jiraTypes.Issue} issueDetail
+ * @returns {slack.Attachment}
+ */
+export function buildIssueDetailAttachment(issueDetail: jiraTypes.Issue): slack.Attachment {
+    const fields = issueDetail.fields;
+    const reporter = fields.reporter ? fields.reporter.displayName : "Anonymous";
+    return {
+        color: "#45B254",
+        author_name: `@${reporter}`,
+        author_icon: fields.reporter ? fields.reporter.avatarUrls["48x48"] : undefined,
+        fallback: `Issue ${issueDetail.key} reported by ${reporter}`,
+        fields: [
             {
-                color: "#45B254",
-                author_name: `@${userDetail.name}`,
-                author_icon: userDetail.avatarUrls["48x48"],
-                fallback: `Issue deleted ${event.issue.key} by ${userDetail.name}`,
+                title: "Issue Type",
+                value: fields.issuetype.name,
+                short: true,
             },
-        ];
-    } else {
-        return [];
-    }
-
-};
-
-export const prepareNewIssueMessage = async (
-    webHookEvent: string,
-    issueDetail: jiraTypes.Issue,
-): Promise<slack.Attachment[]> => {
-
-    if (webHookEvent === "jira:issue_created") {
-        return [
             {
-                color: "#45B254",
-                author_name: `@${issueDetail.fields.reporter.name}`,
-                author_icon: issueDetail.fields.reporter.avatarUrls["48x48"],
-                fallback: `New issue ${issueDetail.key} by ${issueDetail.fields.reporter.name}`,
-                fields: [
-                    {
-                        title: "Issue Type",
-                        value: issueDetail.fields.issuetype.name,
-                        short: true,
-                    },
-                    {
-                        title: "Priority",
-                        value: issueDetail.fields.priority.name,
-                        short: true,
-                    },
-                    {
-                        title: "Assignee",
-                        value: issueDetail.fields.assignee !== null ?
-                            `\u{1F464} ${issueDetail.fields.assignee.name}` :
-                            `\u{1F464} Unassigned`,
-                        short: true,
-                    },
-                    {
-                        title: "Components",
-                        value: issueDetail.fields.components.map(c => c.name).join(","),
-                        short: true,
-                    },
-                    {
-                        title: "Reporter",
-                        value: issueDetail.fields.reporter.name,
-                        short: true,
-                    },
-                    {
-                        title: "Status",
-                        value: issueDetail.fields.status.name,
-                        short: true,
-                    },
-                    {
-                        title: "Description",
-                        value: `${issueDetail.fields.description ? jira2slack.toSlack(issueDetail.fields.description) : ""}`,
-                    },
-                ],
+                title: "Priority",
+                value: fields.priority ? fields.priority.name : "None",
+                short: true,
             },
-        ];
-    } else {
-        return [];
-    }
-};
+            {
+                title: "Assignee",
+                value: `\u{1F464} ${fields.assignee ? fields.assignee.displayName : "Unassigned"}`,
+                short: true,
+            },
+            {
+                title: "Components",
+                value: (fields.components || []).map(c => c.name).join(", ") || "None",
+                short: true,
+            },
+            {
+                title: "Reporter",
+                value: reporter,
+                short: true,
+            },
+            {
+                title: "Status",
+                value: fields.status.name,
+                short: true,
+            },
+            {
+                title: "Description",
+                value: convertJiraTextToSlack(fields.description),
+            },
+        ],
+    };
+}
 
 export function buildJiraFooter(issueDetail: jiraTypes.Issue): string {
     return jiraSlackFooter(
+    findJiraInstanceByUrl(issueDetail ? issueDetail.self : undefined).url,
     issueDetail && issueDetail.hasOwnProperty("fields") ? issueDetail.fields.project.name : undefined,
     issueDetail && issueDetail.hasOwnProperty("fields") ? issueDetail.fields.project.key : undefined,
     issueDetail && issueDetail.hasOwnProperty("fields") ? issueDetail.fields.labels : undefined,
@@ -194,13 +186,14 @@ export function buildJiraFooter(issueDetail: jiraTypes.Issue): string {
     issueDetail
         && issueDetail.hasOwnProperty("fields")
         && issueDetail.fields.hasOwnProperty("assignee")
-        && issueDetail.fields.assignee ? issueDetail.fields.assignee.name : "Unassigned",
+        && issueDetail.fields.assignee ? issueDetail.fields.assignee.displayName : "Unassigned",
     issueDetail && issueDetail.hasOwnProperty("fields") ? issueDetail.fields.priority.name : undefined,
     issueDetail && issueDetail.hasOwnProperty("fields") ? issueDetail.fields.status.name : undefined,
     );
 }
 
 function jiraSlackFooter(
+    baseUrl: string,
     projectName: string,
     projectKey: string,
     labels: string[],
@@ -209,9 +202,8 @@ function jiraSlackFooter(
     priority?: string,
     status?: string,
 ): string {
-    const jiraConfig = configurationValue<JiraConfig>("sdm.jira");
     let footer = "JIRA ";
-    footer += slack.url(`${jiraConfig.url}/projects/${projectKey}`, ` / ${projectName.toUpperCase()}`);
+    footer += slack.url(`${baseUrl}/projects/${projectKey}`, ` / ${projectName.toUpperCase()}`);
     if (type) {
         footer += ` / ${type}`;
     }
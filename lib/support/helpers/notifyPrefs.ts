@@ -0,0 +1,63 @@
+/*
+ * Copyright © 2019 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { JiraPreference } from "../cache/lookup";
+import { Issuetype } from "../jiraDefs";
+
+/**
+ * Normalize an issue type name for use as a key of JiraPreference.issueTypes, ie Sub-task => subtask, Tech Debt => techdebt.
+ * Names normalize to the flags preferences had for the standard issue types before issueTypes.
+ *
+ * @param {string} name
+ * @returns {string}
+ */
+export function issueTypeKey(name: string): string {
+    return name.toLowerCase().replace(/[\s_-]+/g, "");
+}
+
+/**
+ * Determine if a channel's preferences notify issues of this type.  A setting for the type's id takes precedence over one for its name,
+ * types with neither are notified unless otherIssueTypes is false.
+ *
+ * @param {JiraPreference} prefs
+ * @param {Issuetype} issueType
+ * @returns {boolean}
+ */
+export function notifiesIssueType(prefs: JiraPreference, issueType: Issuetype): boolean {
+    const issueTypes = prefs.issueTypes || {};
+    const enabled = [issueTypes[issueType.id], issueTypes[issueTypeKey(issueType.name)]].find(e => e !== undefined);
+    return enabled !== undefined ? enabled : prefs.otherIssueTypes !== false;
+}
+
+function fieldKey(field: string): string {
+    return field.toLowerCase().replace(/\s+/g, "");
+}
+
+/**
+ * Determine if a channel's preferences notify changes to a field.  Field names are compared without regard to case or spaces,
+ * so fixVersion matches Fix Version.
+ *
+ * @param {JiraPreference} prefs
+ * @param {string} field The name of the field in the changelog, ie status
+ * @returns {boolean}
+ */
+export function notifiesField(prefs: JiraPreference, field: string): boolean {
+    const key = fieldKey(field);
+    if (prefs.allowedFields && prefs.allowedFields.length > 0) {
+        return prefs.allowedFields.some(f => fieldKey(f) === key);
+    }
+    return !(prefs.ignoredFields || []).some(f => fieldKey(f) === key);
+}
@@ -0,0 +1,240 @@
+/*
+ * Copyright © 2019 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+    configurationValue,
+    HandlerContext,
+    logger,
+    QueryNoCacheOptions,
+} from "@atomist/automation-client";
+import * as slack from "@atomist/slack-messages";
+import _ = require("lodash");
+import * as types from "../../typings/types";
+import { getJiraCacheConfig } from "../cache/config";
+import { JiraCache } from "../cache/jiraCache";
+import {
+    cachedJiraUserPreferenceLookup,
+    JiraUserPreference,
+} from "../cache/lookup";
+import {
+    issueCacheTag,
+    userEmailCacheTag,
+} from "../cache/tags";
+import {
+    findJiraInstanceByUrl,
+    JiraInstance,
+} from "../instances";
+import { getJiraDetails } from "../jiraDataLookup";
+import * as jiraTypes from "../jiraDefs";
+import { recordJiraCacheLookup } from "../metrics";
+import { buildSelfUrl } from "../shared";
+import { issueCardTitle } from "./issueCard";
+import {
+    buildJiraFooter,
+    prepareIssueCommentedMessage,
+    prepareStateChangeMessage,
+} from "./msgHelpers";
+
+/**
+ * The kinds of event users can opt in to direct messages for, named as in JiraUserPreference
+ */
+type JiraUserNotification = "issueAssigned" | "issueComment" | "issueStatus";
+
+/**
+ * A person to notify about an issue, and why
+ */
+interface JiraIssueRecipient {
+    user: jiraTypes.User;
+    role: "assignee" | "reporter" | "watcher";
+}
+
+interface JiraChatIdentity {
+    /**
+     * The chat user id (ie U0123ABCD) of the person with the email address, unset if there isn't one
+     */
+    userId?: string;
+}
+
+/**
+ * The kinds of user notification an event is, most specific first
+ */
+function userNotifications(event: types.OnJiraIssueEvent.JiraIssue, issueDetail: jiraTypes.Issue): JiraUserNotification[] {
+    const fields = event.changelog && event.changelog.items ? event.changelog.items.map(i => i.field) : [];
+    const assigned = fields.includes("assignee") || (event.issue_event_type_name === "issue_created" && !!issueDetail.fields.assignee);
+    const notifications: JiraUserNotification[] = [];
+    if (assigned) {
+        notifications.push("issueAssigned");
+    }
+    if (event.comment && event.comment.self) {
+        notifications.push("issueComment");
+    }
+    if (fields.includes("status")) {
+        notifications.push("issueStatus");
+    }
+    return notifications;
+}
+
+/**
+ * Find the assignee, reporter and (if needed) the watchers of an issue, other than the person who made the change
+ */
+async function issueRecipients(
+    event: types.OnJiraIssueEvent.JiraIssue,
+    issueDetail: jiraTypes.Issue,
+    jiraConfig: JiraInstance,
+    watchers: boolean,
+): Promise<JiraIssueRecipient[]> {
+    const recipients: JiraIssueRecipient[] = [];
+    if (issueDetail.fields.assignee) {
+        recipients.push({user: issueDetail.fields.assignee as jiraTypes.User, role: "assignee"});
+    }
+    if (issueDetail.fields.reporter) {
+        recipients.push({user: issueDetail.fields.reporter as jiraTypes.User, role: "reporter"});
+    }
+    if (watchers && issueDetail.fields.watches && issueDetail.fields.watches.watchCount > 0) {
+        const issueWatchers = await getJiraDetails<jiraTypes.JiraIssueWatchers>(
+            `${buildSelfUrl(event.issue.id, jiraConfig.name)}/watchers`, true, 30, undefined, [issueCacheTag(event.issue.id)]);
+        recipients.push(...(issueWatchers.watchers || []).map<JiraIssueRecipient>(w => ({user: w, role: "watcher"})));
+    }
+
+    const isActor = (u: jiraTypes.User) => !!event.user && ((!!u.key && u.key === event.user.key) || u.self === event.user.self);
+    return _.uniqBy(recipients.filter(r => !!r.user.emailAddress && !isActor(r.user)), r => r.user.self);
+}
+
+/**
+ * Find the chat user an email address belongs to.  When the cache is enabled matches are remembered as long as JIRA users
+ * are, see JiraCacheConfig.userIdentity.
+ *
+ * @param {HandlerContext} ctx
+ * @param {string} address
+ * @returns {string} The id of the chat user, or undefined if no chat user has this address
+ */
+async function findChatIdByEmail(ctx: HandlerContext, address: string): Promise<string> {
+    const enable = configurationValue<boolean>("sdm.jira.useCache", false);
+    const jiraCache = configurationValue<JiraCache>("sdm.jiraCache");
+    const hashKey = `chat-user-id:${ctx.workspaceId}:${address.toLowerCase()}`;
+    if (enable) {
+        const cached = await jiraCache.get<JiraChatIdentity>(hashKey);
+        recordJiraCacheLookup("findChatIdByEmail", cached !== undefined);
+        if (cached !== undefined) {
+            logger.debug(`JIRA findChatIdByEmail => ${hashKey}: Cache hit, re-using value...`);
+            return cached.userId;
+        }
+    }
+
+    const result = await ctx.graphClient.query<types.ChatIdByEmail.Query, types.ChatIdByEmail.Variables>({
+        name: "ChatIdByEmail",
+        variables: {email: address},
+        options: QueryNoCacheOptions,
+    });
+    const userId: string = _.get(result, "ChatId[0].userId");
+
+    if (enable) {
+        const config = getJiraCacheConfig().userIdentity;
+        await jiraCache.set<JiraChatIdentity>(hashKey, {userId}, userId ? config.ttl : config.negativeTtl, [userEmailCacheTag(address)]);
+    }
+    return userId;
+}
+
+/**
+ * Describe why a user is being sent a message
+ */
+function describeNotification(notification: JiraUserNotification, role: JiraIssueRecipient["role"]): string {
+    const reason = role === "assignee" ? "you are assigned" : role === "reporter" ? "you reported" : "you are watching";
+    switch (notification) {
+        case "issueAssigned":
+            return `You were assigned`;
+        case "issueComment":
+            return `New comment on an issue ${reason}:`;
+        case "issueStatus":
+            return `Status changed on an issue ${reason}:`;
+    }
+}
+
+/**
+ * Build the direct message about an event for a user
+ */
+async function buildUserNotification(
+    event: types.OnJiraIssueEvent.JiraIssue,
+    issueDetail: jiraTypes.Issue,
+    jiraConfig: JiraInstance,
+    notification: JiraUserNotification,
+    role: JiraIssueRecipient["role"],
+): Promise<slack.SlackMessage> {
+    const title = `${describeNotification(notification, role)} ${issueCardTitle(event, issueDetail, jiraConfig)}`;
+    const detail = notification === "issueComment" ? await prepareIssueCommentedMessage(event, issueDetail) :
+        notification === "issueStatus" ? await prepareStateChangeMessage(event) : [];
+    return {
+        attachments: [
+            {
+                pretext: title,
+                fallback: title,
+            },
+            ...detail,
+            {
+                fallback: `Footer`,
+                footer: buildJiraFooter(issueDetail),
+            },
+        ],
+    };
+}
+
+/**
+ * notifyIssueUsers
+ *
+ * Send a direct message about an event to the people involved in the issue who have opted in (see jira notify me): the assignee
+ * when they are assigned, and the assignee, reporter and watchers when the issue is commented on or transitioned.  People are
+ * matched to chat users by the email address of their JIRA user.  The person who made the change isn't notified.
+ *
+ * Each person receives at most one message per event, for the first kind of notification it is that they've opted in to.
+ *
+ * @param {HandlerContext} ctx
+ * @param {OnJiraIssueEvent.JiraIssue} event
+ */
+export async function notifyIssueUsers(ctx: HandlerContext, event: types.OnJiraIssueEvent.JiraIssue): Promise<void> {
+    if (event.webhookEvent === "jira:issue_deleted") {
+        return;
+    }
+
+    const jiraConfig = findJiraInstanceByUrl(event.issue.self);
+    const issueDetail = await getJiraDetails<jiraTypes.Issue>(buildSelfUrl(event.issue.id, jiraConfig.name) + "?expand=changelog", true, 30);
+    const notifications = userNotifications(event, issueDetail);
+    if (notifications.length === 0) {
+        return;
+    }
+
+    const watchers = notifications.some(n => n !== "issueAssigned");
+    const recipients = await issueRecipients(event, issueDetail, jiraConfig, watchers);
+    logger.debug(`JIRA notifyIssueUsers: ${event.issue.key} is ${notifications.join(", ")}, checking ${recipients.length} recipients`);
+
+    for (const recipient of recipients) {
+        try {
+            const chatUserId = await findChatIdByEmail(ctx, recipient.user.emailAddress);
+            const prefs: JiraUserPreference = chatUserId ? await cachedJiraUserPreferenceLookup(ctx, chatUserId) : undefined;
+            const notification = notifications
+                .filter(n => n !== "issueAssigned" || recipient.role === "assignee")
+                .find(n => !!prefs && prefs[n] === true);
+            if (!notification) {
+                continue;
+            }
+
+            const message = await buildUserNotification(event, issueDetail, jiraConfig, notification, recipient.role);
+            await ctx.messageClient.addressUsers(message, chatUserId, {id: `jira/user/${event.issue.key}/${event.timestamp}`});
+            logger.debug(`JIRA notifyIssueUsers: Sent ${notification} for ${event.issue.key} to ${chatUserId}`);
+        } catch (e) {
+            logger.warn(`JIRA notifyIssueUsers: Failed to notify ${recipient.user.name} of ${event.issue.key}.  Error => ${e}`);
+        }
+    }
+}
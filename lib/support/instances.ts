@@ -0,0 +1,157 @@
+/*
+ * Copyright © 2019 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+    configurationValue,
+    logger,
+} from "@atomist/automation-client";
+import { URL } from "url";
+import {
+    JiraConfig,
+    JiraInstanceConfig,
+} from "../jira";
+
+/**
+ * Name given to the instance defined directly in sdm.jira (ie when sdm.jira.instances is not used)
+ */
+export const DefaultJiraInstanceName = "default";
+
+/**
+ * A configured JIRA instance
+ */
+export interface JiraInstance extends JiraInstanceConfig {
+    name: string;
+
+    /**
+     * Base URL of the REST API for this instance, ie https://jirahostname/rest/api/2
+     */
+    apiUrl: string;
+}
+
+/**
+ * Retrieve all configured JIRA instances.  If sdm.jira.instances is not set, the single instance defined in sdm.jira
+ * is returned using the name "default".
+ *
+ * @returns {JiraInstance[]}
+ */
+export function getJiraInstances(): JiraInstance[] {
+    const jiraConfig = configurationValue<JiraConfig>("sdm.jira");
+    if (jiraConfig.instances && Object.keys(jiraConfig.instances).length > 0) {
+        return Object.keys(jiraConfig.instances).map(name => toJiraInstance(name, jiraConfig.instances[name]));
+    } else if (jiraConfig.url) {
+        return [toJiraInstance(DefaultJiraInstanceName, jiraConfig)];
+    } else {
+        throw new Error(`JIRA getJiraInstances: No JIRA instances configured, must supply sdm.jira.url or sdm.jira.instances`);
+    }
+}
+
+function toJiraInstance(name: string, config: JiraInstanceConfig): JiraInstance {
+    const url = config.url.replace(/\/+$/, "");
+    return {
+        ...config,
+        name,
+        url,
+        apiUrl: `${url}/rest/api/${config.apiVersion || 2}`,
+    };
+}
+
+/**
+ * Is more than one JIRA instance configured?
+ * @returns {boolean}
+ */
+export function hasMultipleJiraInstances(): boolean {
+    return getJiraInstances().length > 1;
+}
+
+/**
+ * Retrieve a JIRA instance by name.  If no name is supplied the default instance is returned, which is sdm.jira.defaultInstance
+ * if set, otherwise the first configured instance.
+ *
+ * @param {string} name Optional, the name of the instance
+ * @returns {JiraInstance}
+ */
+export function getJiraInstance(name?: string): JiraInstance {
+    const instances = getJiraInstances();
+    const instanceName = name || configurationValue<string>("sdm.jira.defaultInstance", instances[0].name);
+    const instance = instances.find(i => i.name === instanceName);
+    if (!instance) {
+        throw new Error(`JIRA getJiraInstance: No JIRA instance named ${instanceName} is configured`);
+    }
+    return instance;
+}
+
+/**
+ * Determine which configured JIRA instance a given url (ie an issue self url) belongs to.  Where multiple instances share the
+ * same host the instance with the longest matching base url is used.  If no instance matches, the default instance is returned.
+ *
+ * @param {string} url
+ * @returns {JiraInstance}
+ */
+export function findJiraInstanceByUrl(url: string): JiraInstance {
+    const instances = getJiraInstances();
+    if (instances.length === 1 || !url) {
+        return getJiraInstance();
+    }
+
+    let host: string;
+    try {
+        host = new URL(url).host;
+    } catch {
+        logger.warn(`JIRA findJiraInstanceByUrl: Could not parse url ${url}, using default instance`);
+        return getJiraInstance();
+    }
+
+    const matches = instances
+        .filter(i => new URL(i.url).host === host)
+        .sort((a, b) => (url.startsWith(b.url) ? b.url.length : 0) - (url.startsWith(a.url) ? a.url.length : 0));
+    if (matches.length > 0) {
+        return matches[0];
+    }
+
+    logger.warn(`JIRA findJiraInstanceByUrl: No instance configured for ${url}, using default instance`);
+    return getJiraInstance();
+}
+
+/**
+ * JIRA webhooks always supply REST v2 self urls.  Rewrite a self url to use the API version configured for the instance it belongs to.
+ *
+ * @param {string} selfUrl
+ * @returns {string}
+ */
+export function toInstanceApiUrl(selfUrl: string): string {
+    const instance = findJiraInstanceByUrl(selfUrl);
+    return selfUrl.replace(/\/rest\/api\/(2|3|latest)\//, `/rest/api/${instance.apiVersion || 2}/`);
+}
+
+/**
+ * Mappings (and other stored data) record the instance they belong to only when multiple instances are configured.  Data
+ * without an instance belongs to the default instance.
+ *
+ * @param {string} name The instance name
+ * @returns {string | undefined} The value to store
+ */
+export function storedJiraInstanceName(name: string): string | undefined {
+    return hasMultipleJiraInstances() ? name : undefined;
+}
+
+/**
+ * Resolve a stored instance name (which may be undefined) to the name of a configured instance
+ * @param {string} stored
+ * @returns {string}
+ */
+export function resolveJiraInstanceName(stored?: string): string {
+    return stored ? stored : getJiraInstance().name;
+}
@@ -0,0 +1,262 @@
+/*
+ * Copyright © 2019 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+    configurationValue,
+    HttpClientFactory,
+    HttpMethod,
+    HttpResponse,
+    logger,
+} from "@atomist/automation-client";
+import { SdmContext } from "@atomist/sdm";
+import { getJiraAuth } from "./auth/jiraAuth";
+import { recordJiraApiRequest } from "./metrics";
+
+export interface JiraClientConfig {
+    /**
+     * Number of times to retry a request that failed with a transient error (5xx, 429 or network failure).  Default 3
+     */
+    retries?: number;
+
+    /**
+     * Base delay, in milliseconds, between retries.  Doubled on every attempt.  Default 500
+     */
+    retryDelay?: number;
+
+    /**
+     * Maximum time, in milliseconds, to wait when JIRA responds with a Retry-After header.  Default 60000
+     */
+    maxRetryAfter?: number;
+
+    /**
+     * Request timeout in milliseconds.  Default 30000
+     */
+    timeout?: number;
+}
+
+const DefaultJiraClientConfig: JiraClientConfig = {
+    retries: 3,
+    retryDelay: 500,
+    maxRetryAfter: 60000,
+    timeout: 30000,
+};
+
+/**
+ * Error raised for any failed request to the JIRA REST API.  Where JIRA supplied error detail in the response
+ * it is available on errorMessages (general errors) and errors (field specific errors).
+ */
+export class JiraApiError extends Error {
+    constructor(
+        public readonly method: HttpMethod,
+        public readonly url: string,
+        public readonly status: number | undefined,
+        public readonly errorMessages: string[] = [],
+        public readonly errors: {[field: string]: string} = {},
+        cause?: string,
+        public readonly code?: string,
+    ) {
+        super(JiraApiError.describe(method, url, status, errorMessages, errors, cause));
+        Object.setPrototypeOf(this, JiraApiError.prototype);
+        this.name = "JiraApiError";
+    }
+
+    private static describe(
+        method: HttpMethod,
+        url: string,
+        status: number | undefined,
+        errorMessages: string[],
+        errors: {[field: string]: string},
+        cause?: string,
+    ): string {
+        const detail = [
+            ...errorMessages,
+            ...Object.keys(errors).map(k => `${k}: ${errors[k]}`),
+        ];
+        if (detail.length === 0 && cause) {
+            detail.push(cause);
+        }
+        return `${method} ${url} failed${status ? ` (${status})` : ""}` + (detail.length > 0 ? `: ${detail.join(", ")}` : "");
+    }
+}
+
+/**
+ * Errors raised when a connection to JIRA could not be made, so the request was never sent
+ */
+const UnsentRequestCodes = ["ECONNREFUSED", "ENOTFOUND", "EAI_AGAIN", "EHOSTUNREACH", "ENETUNREACH"];
+
+/**
+ * Did JIRA certainly not process a failed request?  True when it was rate limited (429), a gateway reported JIRA unavailable
+ * (502, 503) or the request was never sent.  After a timeout or any other error a write may already have been applied, so
+ * sending it again could ie add a comment twice.
+ * @param {JiraApiError} e
+ * @returns {boolean}
+ */
+export function isUnprocessedJiraRequest(e: JiraApiError): boolean {
+    return e.status === undefined ? UnsentRequestCodes.includes(e.code) : [429, 502, 503].includes(e.status);
+}
+
+/**
+ * Describe an error for display in chat.  JiraApiErrors contain the detail JIRA returned, anything else is displayed as is.
+ * @param {Error} e
+ * @returns {string}
+ */
+export function describeJiraError(e: Error): string {
+    if (e instanceof JiraApiError) {
+        const detail = [
+            ...e.errorMessages,
+            ...Object.keys(e.errors).map(k => `*${k}*: ${e.errors[k]}`),
+        ];
+        return `JIRA returned ${e.status ? `status ${e.status}` : "no response"}` + (detail.length > 0 ? `\n${detail.join("\n")}` : "");
+    }
+    return `${e}`;
+}
+
+/**
+ * Client for the JIRA REST API.  All requests are authenticated using getJiraAuth, transient failures (5xx, network errors) of reads
+ * and writes JIRA didn't process (see isUnprocessedJiraRequest) are retried with exponential back-off, rate limited requests (429)
+ * honour the Retry-After header and any failure is raised as a JiraApiError.
+ *
+ * Configuration can be supplied in sdm.jira.client.
+ */
+export class JiraClient {
+    private readonly config: JiraClientConfig;
+
+    /**
+     * @param {SdmContext} ctx Passed to supply detail to getJiraAuth.  Where present in calling functions, should be passed in.
+     * @param {JiraClientConfig} config Optional, overrides sdm.jira.client
+     */
+    constructor(private readonly ctx?: SdmContext, config?: JiraClientConfig) {
+        this.config = {
+            ...DefaultJiraClientConfig,
+            ...configurationValue<JiraClientConfig>("sdm.jira.client", {}),
+            ...config,
+        };
+    }
+
+    public async get<T>(url: string): Promise<T> {
+        return (await this.request<T>(HttpMethod.Get, url)).body;
+    }
+
+    public async post<T>(url: string, body: any): Promise<T> {
+        return (await this.request<T>(HttpMethod.Post, url, body)).body;
+    }
+
+    public async put<T>(url: string, body: any): Promise<T> {
+        return (await this.request<T>(HttpMethod.Put, url, body)).body;
+    }
+
+    public async delete<T>(url: string): Promise<T> {
+        return (await this.request<T>(HttpMethod.Delete, url)).body;
+    }
+
+    public async request<T>(method: HttpMethod, url: string, body?: any): Promise<HttpResponse<T>> {
+        const httpClient = configurationValue<HttpClientFactory>("http.client.factory").create(url);
+
+        let attempt = 0;
+        while (true) {
+            // Re-authenticate for each attempt, signed requests (OAuth) must not be replayed
+            const auth = await getJiraAuth(this.ctx, {url, method});
+            const start = Date.now();
+            try {
+                const response = await httpClient.exchange<T>(url, {
+                    method,
+                    headers: {
+                        Accept: "application/json",
+                        ...(body !== undefined ? {"Content-Type": "application/json"} : {}),
+                        ...auth,
+                    },
+                    body,
+                    retry: {retries: 0},
+                    options: {timeout: this.config.timeout},
+                });
+                recordJiraApiRequest(method, url, response.status, Date.now() - start);
+                return response;
+            } catch (e) {
+                const error = toJiraApiError(method, url, e);
+                recordJiraApiRequest(method, url, error.status, Date.now() - start);
+                const delay = this.retryDelay(method, error, e, attempt);
+                if (delay === undefined) {
+                    logger.error(`JIRA JiraClient: ${error.message}`);
+                    throw error;
+                }
+
+                attempt++;
+                logger.warn(`JIRA JiraClient: ${error.message}.  Retrying in ${delay}ms (attempt ${attempt} of ${this.config.retries})`);
+                await sleep(delay);
+            }
+        }
+    }
+
+    /**
+     * Determine how long to wait before retrying a failed request
+     * @returns {number | undefined} undefined if this request should not be retried
+     */
+    private retryDelay(method: HttpMethod, error: JiraApiError, e: any, attempt: number): number | undefined {
+        if (attempt >= this.config.retries) {
+            return undefined;
+        }
+
+        const backoff = this.config.retryDelay * Math.pow(2, attempt);
+        if (error.status === 429) {
+            const retryAfter = parseRetryAfter(e.response.headers ? e.response.headers["retry-after"] : undefined);
+            return Math.min(retryAfter !== undefined ? retryAfter : backoff, this.config.maxRetryAfter);
+        } else if (method === HttpMethod.Get) {
+            return error.status === undefined || error.status >= 500 ? backoff : undefined;
+        }
+        // Writes are not idempotent (ie a PUT adding a comment), only retry when we know JIRA didn't process the request
+        return isUnprocessedJiraRequest(error) ? backoff : undefined;
+    }
+}
+
+/**
+ * Convert an error raised by the HttpClient into a JiraApiError
+ */
+function toJiraApiError(method: HttpMethod, url: string, e: any): JiraApiError {
+    if (e instanceof JiraApiError) {
+        return e;
+    } else if (e && e.response) {
+        const data = e.response.data && typeof e.response.data === "object" ? e.response.data : {};
+        return new JiraApiError(
+            method,
+            url,
+            e.response.status,
+            data.errorMessages || [],
+            data.errors || {},
+            typeof e.response.data === "string" ? e.response.data : e.message,
+        );
+    }
+    return new JiraApiError(method, url, undefined, [], {}, e && e.message ? e.message : `${e}`, e ? e.code : undefined);
+}
+
+/**
+ * Parse a Retry-After header, which is either a number of seconds or an HTTP date
+ * @returns {number | undefined} The delay in milliseconds
+ */
+function parseRetryAfter(value: string | undefined): number | undefined {
+    if (!value) {
+        return undefined;
+    }
+    const seconds = Number(value);
+    if (!isNaN(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(value);
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+async function sleep(ms: number): Promise<void> {
+    return new Promise<void>(resolve => setTimeout(resolve, ms));
+}
@@ -17,16 +17,31 @@
 import {
     configurationValue,
     HandlerContext,
-    HttpClientFactory,
-    HttpMethod,
     logger,
 } from "@atomist/automation-client";
 import { SdmContext } from "@atomist/sdm";
+import _ = require("lodash");
 import {
-    getJiraAuth,
-    JiraConfig,
-} from "../jira";
+    getJiraCredentialScope,
+    getJiraRequestScope,
+} from "./auth/userCredentials";
+import {
+    getJiraCacheConfig,
+    JiraCacheSite,
+} from "./cache/config";
 import { JiraCache } from "./cache/jiraCache";
+import { jiraUrlCacheTags } from "./cache/tags";
+import {
+    findJiraInstanceByUrl,
+    getJiraInstance,
+} from "./instances";
+import { JiraClient } from "./jiraClient";
+import { recordJiraCacheLookup } from "./metrics";
+
+/**
+ * Requests to JIRA that are in progress, by credential scope and url
+ */
+const InFlightRequests = new Map<string, Promise<any>>();
 
 /**
  * This function retrieves details from JIRA.  You must supply the full "self"
@@ -35,17 +50,42 @@ import { JiraCache } from "./cache/jiraCache";
  *
  *  example: const result = await jiraSelfUrl<User>("http://localhost:8080/rest/api/2/user?username=matt");
  *
+ * Concurrent requests for the same url, made with the same credentials, share a single request to JIRA (whether or not the
+ * cache is used) so callers receive the same result object and must not modify it.  Likewise cached results are only shared
+ * between requests made with the same credentials, results fetched with a chat user's linked credentials are cached for that
+ * user alone.
+ *
  * @param {string} jiraSelfUrl Supply the api endpoint to the given user
  * @param {boolean} cache Can we store the result of this query? Default false
  * @param {number} ttl If we cache, how long should we store this? Default 3600
  * @param {HandlerContext} ctx Passed to supply detail to getJiraAuth.  Where present in calling functions, should be passed in.
+ * @param {string[]} tags Tags to invalidate the cached result with, in addition to the issues and projects referenced by the url
+ * @param {JiraCacheSite} site Identifies the call site, sites configured in sdm.jira.cache.staleWhileRevalidate serve expired results
+ * while they are refreshed
  * @returns {T}
+ * @throws {JiraApiError}
  */
-export async function getJiraDetails<T>(jiraSelfUrl: string, cache: boolean = false, ttl: number = 3600, ctx?: SdmContext): Promise<T> {
+export async function getJiraDetails<T>(
+    jiraSelfUrl: string,
+    cache: boolean = false,
+    ttl: number = 3600,
+    ctx?: SdmContext,
+    tags: string[] = [],
+    site?: JiraCacheSite,
+): Promise<T> {
     const useCache = configurationValue<boolean>("sdm.jira.useCache", false) && cache;
-    const httpClient = configurationValue<HttpClientFactory>("http.client.factory").create(jiraSelfUrl);
+    const scope = await getJiraRequestScope(ctx, findJiraInstanceByUrl(jiraSelfUrl).name);
+    const maxStale = site ? getJiraCacheConfig().staleWhileRevalidate[site] : undefined;
+    if (useCache && maxStale !== undefined) {
+        return getStaleWhileRevalidate<T>(jiraSelfUrl, ttl, maxStale, ctx, scope, tags);
+    }
+
+    const key = buildScopedCacheKey(scope, jiraSelfUrl);
     const jiraCache = configurationValue<JiraCache>("sdm.jiraCache");
-    const cacheResult = jiraCache.get<T>(jiraSelfUrl);
+    const cacheResult = await jiraCache.get<T>(key);
+    if (useCache) {
+        recordJiraCacheLookup("getJiraDetails", cacheResult !== undefined);
+    }
 
     if (useCache && cacheResult !== undefined) {
         logger.debug(`JIRA getJiraDetails => ${jiraSelfUrl}: Cache hit, re-using value...`);
@@ -53,29 +93,96 @@ export async function getJiraDetails<T>(jiraSelfUrl: string, cache: boolean = fa
     } else {
         logger.debug(`JIRA getJiraDetails => ${jiraSelfUrl}: Cache ${useCache ? "miss" : "disabled"}, querying...`);
         try {
-            const result = await httpClient.exchange<T>(
-                jiraSelfUrl,
-                {
-                    method: HttpMethod.Get,
-                    headers: {
-                        Accept: "application/json",
-                        ...await getJiraAuth(ctx),
-                    },
-                },
-            );
+            const result = await singleFlight<T>(`${getJiraCredentialScope(ctx)} ${jiraSelfUrl}`, () => new JiraClient(ctx).get<T>(jiraSelfUrl));
 
             if (cache) {
-                jiraCache.set(jiraSelfUrl, result.body, ttl);
+                await jiraCache.set(key, result, ttl, _.uniq([...jiraUrlCacheTags(jiraSelfUrl), ...tags]));
             }
-            return result.body;
+            return result;
         } catch (e) {
-            const error = `JIRA getJiraDetails: Failed to retrieve details for ${jiraSelfUrl}, error thrown: ${e}`;
-            logger.error(error);
-            throw new Error(e);
+            logger.error(`JIRA getJiraDetails: Failed to retrieve details for ${jiraSelfUrl}, error thrown: ${e}`);
+            throw e;
         }
     }
 }
 
+interface JiraStaleWhileRevalidateEntry<T> {
+    value: T;
+
+    /**
+     * When the value should be refreshed, in milliseconds since the epoch
+     */
+    expires: number;
+}
+
+/**
+ * Entries are kept for ttl + maxStale seconds.  Once ttl has passed the entry is still returned, and a single background request
+ * replaces it.  Once the entry is evicted callers wait for JIRA as usual.  These entries are stored under their own key as they
+ * are wrapped with their expiry.
+ */
+async function getStaleWhileRevalidate<T>(
+    jiraSelfUrl: string,
+    ttl: number,
+    maxStale: number,
+    ctx: SdmContext,
+    scope: string,
+    tags: string[],
+): Promise<T> {
+    const key = `stale-while-revalidate:${buildScopedCacheKey(scope, jiraSelfUrl)}`;
+    const jiraCache = configurationValue<JiraCache>("sdm.jiraCache");
+    const fetch = async () => {
+        const value = await singleFlight<T>(`${getJiraCredentialScope(ctx)} ${jiraSelfUrl}`, () => new JiraClient(ctx).get<T>(jiraSelfUrl));
+        const entry: JiraStaleWhileRevalidateEntry<T> = {value, expires: Date.now() + ttl * 1000};
+        await jiraCache.set(key, entry, ttl + maxStale, _.uniq([...jiraUrlCacheTags(jiraSelfUrl), ...tags]));
+        return value;
+    };
+
+    const cacheResult = await jiraCache.get<JiraStaleWhileRevalidateEntry<T>>(key);
+    recordJiraCacheLookup("getJiraDetails", cacheResult !== undefined);
+    if (cacheResult === undefined) {
+        logger.debug(`JIRA getJiraDetails => ${jiraSelfUrl}: Cache miss, querying...`);
+        try {
+            return await fetch();
+        } catch (e) {
+            logger.error(`JIRA getJiraDetails: Failed to retrieve details for ${jiraSelfUrl}, error thrown: ${e}`);
+            throw e;
+        }
+    }
+
+    if (cacheResult.expires <= Date.now()) {
+        logger.debug(`JIRA getJiraDetails => ${jiraSelfUrl}: Cache entry is stale, re-using value and refreshing...`);
+        fetch().catch(e => logger.warn(`JIRA getJiraDetails: Failed to refresh stale entry for ${jiraSelfUrl}, error thrown: ${e}`));
+    } else {
+        logger.debug(`JIRA getJiraDetails => ${jiraSelfUrl}: Cache hit, re-using value...`);
+    }
+    return cacheResult.value;
+}
+
+/**
+ * Results fetched with the service account are cached by url, so they are shared with warmup and event handlers
+ */
+function buildScopedCacheKey(scope: string, jiraSelfUrl: string): string {
+    return scope ? `${scope} ${jiraSelfUrl}` : jiraSelfUrl;
+}
+
+/**
+ * Run request, unless a request with the same key is already in progress in which case its result is returned instead
+ */
+async function singleFlight<T>(key: string, request: () => Promise<T>): Promise<T> {
+    if (InFlightRequests.has(key)) {
+        logger.debug(`JIRA singleFlight => ${key}: Request in progress, waiting for its result...`);
+        return InFlightRequests.get(key);
+    }
+
+    const pending = request();
+    InFlightRequests.set(key, pending);
+    try {
+        return await pending;
+    } finally {
+        InFlightRequests.delete(key);
+    }
+}
+
 interface JiraRepoDetailLink {
     name: string;
     url: string;
@@ -94,30 +201,19 @@ interface JiraIssueRepo {
  * see docs for details
  *
  * @param {issueId} issueId The ID of the JIRA issue.
+ * @param {string} instance The name of the JIRA instance the issue belongs to.  Optional, defaults to the default instance
  * @returns {string[]} List of repo names
  */
-export async function getJiraIssueRepos(issueId: string): Promise<string[]> {
-    const jiraConfig = configurationValue<object>("sdm.jira") as JiraConfig;
+export async function getJiraIssueRepos(issueId: string, instance?: string): Promise<string[]> {
+    const jiraConfig = getJiraInstance(instance);
     const lookupUrl =
         // tslint:disable-next-line:max-line-length
         `${jiraConfig.url}/rest/dev-status/latest/issue/detail?issueId=${issueId}&applicationType=${jiraConfig.vcstype}&dataType=repository`;
 
     logger.debug(`JIRA getJiraIssueRepos: using issueID => ${issueId}`);
     logger.debug(`JIRA getJiraIssueRepos: using lookupUrl => ${JSON.stringify(lookupUrl)}`);
-    const httpClient = configurationValue<HttpClientFactory>("http.client.factory").create(lookupUrl);
-    const result = await httpClient.exchange(
-        lookupUrl,
-        {
-            method: HttpMethod.Get,
-            headers: {
-                Accept: "application/json",
-                ...await getJiraAuth(),
-            },
-        },
-    );
-        // .then(result => {
+    const data = await new JiraClient().get<JiraIssueRepo>(lookupUrl);
     const repos: string[] = [];
-    const data = result.body as JiraIssueRepo;
     logger.debug(`JIRA getJiraIssueRepos: ticket detail => ${JSON.stringify(data.detail)}`);
 
     if (data.detail && data.detail.length > 0) {
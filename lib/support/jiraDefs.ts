@@ -1,3 +1,5 @@
+import { AdfDocument } from "./helpers/adf";
+
 export interface JiraIssueWebhook {
     timestamp: number;
     webhookEvent: string;
@@ -17,6 +19,7 @@ export interface User {
     self: string;
     name: string;
     key: string;
+    accountId?: string;
     emailAddress: string;
     avatarUrls: AvatarUrls;
     displayName: string;
@@ -76,6 +79,12 @@ export interface Watches {
     watchCount: number;
     isWatching: boolean;
 }
+export interface JiraIssueWatchers {
+    self: string;
+    watchCount: number;
+    isWatching: boolean;
+    watchers: User[];
+}
 export interface Creator {
     self: string;
     name: string;
@@ -151,7 +160,7 @@ export interface Comment {
     self: string;
     id: string;
     author: Author;
-    body: string;
+    body: string | AdfDocument;
     updateAuthor: Author;
     created: Date;
     updated: Date;
@@ -195,7 +204,7 @@ export interface Fields {
     components: Component[];
     timespent?: any;
     timeoriginalestimate?: any;
-    description?: any;
+    description?: string | AdfDocument;
     project: Project;
     fixVersions: FixVersion[];
     aggregatetimespent?: any;
@@ -0,0 +1,222 @@
+/*
+ * Copyright © 2019 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+interface MetricLabels {
+    [label: string]: string;
+}
+
+/**
+ * Histogram bucket upper bounds, in seconds
+ */
+const DurationBuckets = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+abstract class Metric<V> {
+    protected readonly series: Map<string, {labels: MetricLabels, value: V}> = new Map();
+
+    constructor(public readonly name: string, public readonly help: string, public readonly type: "counter" | "histogram") {}
+
+    public reset(): void {
+        this.series.clear();
+    }
+
+    public expose(): string[] {
+        const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`];
+        Array.from(this.series.keys()).sort().forEach(k => {
+            const s = this.series.get(k);
+            lines.push(...this.exposeSeries(s.labels, s.value));
+        });
+        return lines;
+    }
+
+    protected seriesFor(labels: MetricLabels, initial: () => V): V {
+        const key = formatLabels(labels);
+        if (!this.series.has(key)) {
+            this.series.set(key, {labels, value: initial()});
+        }
+        return this.series.get(key).value;
+    }
+
+    protected abstract exposeSeries(labels: MetricLabels, value: V): string[];
+}
+
+class Counter extends Metric<{count: number}> {
+    constructor(name: string, help: string) {
+        super(name, help, "counter");
+    }
+
+    public inc(labels: MetricLabels, amount: number = 1): void {
+        this.seriesFor(labels, () => ({count: 0})).count += amount;
+    }
+
+    public value(labels: MetricLabels): number {
+        const series = this.series.get(formatLabels(labels));
+        return series ? series.value.count : 0;
+    }
+
+    protected exposeSeries(labels: MetricLabels, value: {count: number}): string[] {
+        return [`${this.name}${formatLabels(labels)} ${value.count}`];
+    }
+}
+
+interface HistogramValue {
+    buckets: number[];
+    sum: number;
+    count: number;
+}
+
+class Histogram extends Metric<HistogramValue> {
+    constructor(name: string, help: string) {
+        super(name, help, "histogram");
+    }
+
+    public observe(labels: MetricLabels, seconds: number): void {
+        const value = this.seriesFor(labels, () => ({buckets: DurationBuckets.map(() => 0), sum: 0, count: 0}));
+        DurationBuckets.forEach((le, i) => {
+            if (seconds <= le) {
+                value.buckets[i]++;
+            }
+        });
+        value.sum += seconds;
+        value.count++;
+    }
+
+    protected exposeSeries(labels: MetricLabels, value: HistogramValue): string[] {
+        return [
+            ...DurationBuckets.map((le, i) => `${this.name}_bucket${formatLabels({...labels, le: `${le}`})} ${value.buckets[i]}`),
+            `${this.name}_bucket${formatLabels({...labels, le: "+Inf"})} ${value.count}`,
+            `${this.name}_sum${formatLabels(labels)} ${value.sum}`,
+            `${this.name}_count${formatLabels(labels)} ${value.count}`,
+        ];
+    }
+}
+
+const jiraApiRequests = new Counter("jira_api_requests_total", "JIRA REST API requests made, by endpoint template, method and status");
+const jiraApiRequestDuration = new Histogram("jira_api_request_duration_seconds", "JIRA REST API request latency in seconds");
+const jiraCacheLookups = new Counter("jira_cache_lookups_total", "JIRA cache lookups, by call site and result (hit or miss)");
+const jiraEventDuration = new Histogram("jira_event_handler_duration_seconds", "JIRA event handler processing time in seconds");
+
+const JiraMetrics: Array<Metric<any>> = [jiraApiRequests, jiraApiRequestDuration, jiraCacheLookups, jiraEventDuration];
+
+/**
+ * Convert a JIRA REST url into an endpoint template by removing the host and query string and replacing ids and issue keys
+ * with placeholders, ie https://jira.example.com/rest/api/2/issue/ABC-123/comment/10001 => /rest/api/2/issue/{key}/comment/{id}
+ *
+ * @param {string} url
+ * @returns {string}
+ */
+export function toJiraEndpointTemplate(url: string): string {
+    const path = url.replace(/^[a-z]+:\/\/[^/]+/i, "").split("?")[0];
+    return path.split("/").map((segment, i, segments) => {
+        // Keep the API version, ie /rest/api/2
+        if (/^\d+$/.test(segment) && segments[i - 1] !== "api") {
+            return "{id}";
+        } else if (/^[A-Z][A-Z0-9_]*-\d+$/.test(segment)) {
+            return "{key}";
+        }
+        return segment;
+    }).join("/") || "/";
+}
+
+/**
+ * Record a request made to the JIRA REST API
+ *
+ * @param {string} method The HTTP method
+ * @param {string} url The full url requested
+ * @param {number | undefined} status The response status, undefined if no response was received
+ * @param {number} durationMs How long the request took in milliseconds
+ */
+export function recordJiraApiRequest(method: string, url: string, status: number | undefined, durationMs: number): void {
+    const labels = {endpoint: toJiraEndpointTemplate(url), method: method.toUpperCase(), status: status ? `${status}` : "none"};
+    jiraApiRequests.inc(labels);
+    jiraApiRequestDuration.observe(labels, durationMs / 1000);
+}
+
+/**
+ * Record the result of a cache lookup
+ *
+ * @param {string} site The function performing the lookup
+ * @param {boolean} hit Was the value found in cache?
+ */
+export function recordJiraCacheLookup(site: string, hit: boolean): void {
+    jiraCacheLookups.inc({site, result: hit ? "hit" : "miss"});
+}
+
+export interface JiraCacheLookupStats {
+    hits: number;
+    misses: number;
+
+    /**
+     * Proportion of lookups that were hits, from 0 to 1.  Undefined until a lookup is made
+     */
+    hitRate?: number;
+}
+
+/**
+ * Summarise the cache lookups recorded by a call site since the SDM started (or metrics were reset)
+ *
+ * @param {string} site The function performing the lookups
+ * @returns {JiraCacheLookupStats}
+ */
+export function getJiraCacheLookupStats(site: string): JiraCacheLookupStats {
+    const hits = jiraCacheLookups.value({site, result: "hit"});
+    const misses = jiraCacheLookups.value({site, result: "miss"});
+    return {
+        hits,
+        misses,
+        hitRate: hits + misses > 0 ? hits / (hits + misses) : undefined,
+    };
+}
+
+/**
+ * Time an event handler, recording the duration and whether it succeeded
+ *
+ * @param {string} handler The name of the event handler
+ * @param {() => Promise<T>} fn The handler body
+ * @returns {T}
+ */
+export async function timeJiraEventHandler<T>(handler: string, fn: () => Promise<T>): Promise<T> {
+    const start = Date.now();
+    let result = "success";
+    try {
+        return await fn();
+    } catch (e) {
+        result = "failure";
+        throw e;
+    } finally {
+        jiraEventDuration.observe({handler, result}, (Date.now() - start) / 1000);
+    }
+}
+
+/**
+ * Render all JIRA metrics in the Prometheus text exposition format
+ *
+ * @returns {string}
+ */
+export function exposeJiraMetrics(): string {
+    return JiraMetrics.map(m => m.expose().join("\n")).join("\n\n") + "\n";
+}
+
+/**
+ * Reset all JIRA metrics
+ */
+export function resetJiraMetrics(): void {
+    JiraMetrics.forEach(m => m.reset());
+}
+
+function formatLabels(labels: MetricLabels): string {
+    const pairs = Object.keys(labels).map(k => `${k}="${labels[k].replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, "\\\"")}"`);
+    return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
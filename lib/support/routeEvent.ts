@@ -16,16 +16,13 @@
 
 import {
     buttonForCommand,
-    configurationValue,
     HandlerContext,
     logger,
     menuForCommand,
     MenuSpecification,
-    MessageOptions,
 } from "@atomist/automation-client";
 import * as slack from "@atomist/slack-messages";
 import _ = require("lodash");
-import { JiraConfig } from "../jira";
 import * as types from "../typings/types";
 import { JiraPreference } from "./cache/lookup";
 import {
@@ -33,12 +30,24 @@ import {
     jiraParseChannels,
 } from "./helpers/channelLookup";
 import {
+    channelIssueActivity,
+    describeIssueActivity,
+    formatIssueActivity,
+    issueCardMessageId,
+    issueCardTitle,
+    JiraIssueActivity,
+    recordIssueActivity,
+} from "./helpers/issueCard";
+import {
+    buildIssueDetailAttachment,
     buildJiraFooter,
     prepareIssueCommentedMessage,
-    prepareIssueDeletedMessage,
-    prepareNewIssueMessage,
     prepareStateChangeMessage,
 } from "./helpers/msgHelpers";
+import {
+    findJiraInstanceByUrl,
+    JiraInstance,
+} from "./instances";
 import { getJiraDetails } from "./jiraDataLookup";
 import * as jiraTypes from "./jiraDefs";
 import { buildSelfUrl } from "./shared";
@@ -46,26 +55,26 @@ import { buildSelfUrl } from "./shared";
 /**
  * routeEvent
  *
- * This function is used to determine what type of inbound JIRA Issue event we have received, what data
- * should be included in the messages that are sent to the Chat platform, and what actions should be
- * available on those messages.
+ * This function is used to determine which channels should be notified of an inbound JIRA Issue event, and to update the
+ * "issue card" in each channel the issue is mapped to.  Every channel has one card per issue (with a stable message id) that
+ * is re-written in place, showing the current detail of the issue, the recent activity on the issue the channel subscribes to,
+ * the footer and the available actions.
+ *
+ * Channels subscribed to this event have their card posted (or updated), other channels the issue is mapped to have an
+ * existing card refreshed so its footer stays current.  The work done is the same however long the issue's history is.
+ *
+ * Channels that prefer threaded notifications also receive the full detail of comments and changes as a reply in the
+ * card's thread, addressed by the card's message id.
  *
  * @param {HandlerContext} ctx
  * @param {OnJiraIssueEvent.JiraIssue} event
- * @param {Boolean} newEvent Controls what the message options should be, update only or always-post
  */
 export const routeEvent = async (
     ctx: HandlerContext,
     event: types.OnJiraIssueEvent.JiraIssue,
-    newEvent: boolean,
 ): Promise<void> => {
-    // Build one array with all the stuff that we'll convert into a slack message
-    const message: slack.Attachment[] = [];
-    const jiraConfig = configurationValue<JiraConfig>("sdm.jira");
-    const issueDetail = await getJiraDetails<jiraTypes.Issue>(buildSelfUrl(event.issue.id) + "?expand=changelog", true, 30);
-
-    // Set a description and provide a static (and reproducible) message id
-    const {description, issueTransitions, msgOptions} = await getJiraIssueDescription(issueDetail, event, newEvent, jiraConfig);
+    const jiraConfig = findJiraInstanceByUrl(event.issue.self);
+    const issueDetail = await getJiraDetails<jiraTypes.Issue>(buildSelfUrl(event.issue.id, jiraConfig.name) + "?expand=changelog", true, 30);
 
     // Get all the channels to notify
     const channels: JiraPreference[] = [];
@@ -100,121 +109,109 @@ export const routeEvent = async (
         channels.push(...(newChannels.filter(c => c.issueDeleted === true)));
     }
 
-    // Extract message details
-    message.push(...(await prepareNewIssueMessage(event.webhookEvent, issueDetail)));
-    message.push(...(await prepareIssueDeletedMessage(event)));
-    message.push(...(await prepareStateChangeMessage(event)));
-    message.push(...(await prepareIssueCommentedMessage(event, issueDetail)));
-
-    // Create menu spec for issue transitions
-    const transitionOptions: MenuSpecification = {
-        text: "Set Status",
-        options: issueTransitions.hasOwnProperty("transitions") && issueTransitions.transitions.length > 0 ?
-            issueTransitions.transitions.map(t => ({text: t.name, value: t.id})) : [],
-    };
-
-    // Dedupe channels and send message
-    if (message.length > 0 && channels.length > 0) {
-        const notifyChannels = _.uniqBy(channels, "channel");
-        const finalMessage: slack.SlackMessage = {
-            attachments: [
-                {
-                    pretext: description,
-                    fallback: description,
-                },
-                ...message,
-                {
-                    fallback: `Footer`,
-                    footer: buildJiraFooter(issueDetail),
-                    actions: [
-                        ...(
-                            event.webhookEvent !== "jira:issue_deleted" ?
-                            [buttonForCommand({text: "Comment"}, "JiraCommentOnIssue", {issueId: event.issue.id})] : []),
-                        ...(issueTransitions.transitions.length > 0 ?
-                            [menuForCommand(
-                                transitionOptions,
-                                "SetIssueStatus",
-                                "transitionId",
-                                {selfUrl: `${issueDetail.self}/transitions`})] : []),
-                    ],
-                },
-            ],
-        };
-
-        if (notifyChannels.length > 0) {
-            await ctx.messageClient.addressChannels(finalMessage, notifyChannels.map(c => c.channel), msgOptions);
-        }
-    } else {
-        if (!(message.length > 0)) {
-            logger.debug(`JIRA routeEvent: Message is empty, not sending message`);
-        }
+    if (newChannels.length === 0) {
+        logger.debug(`JIRA routeEvent: No channels found, not sending message`);
+        return;
+    }
 
-        if (!(channels.length > 0)) {
-            logger.debug(`JIRA routeEvent: No channels found, not sending message`);
+    const newActivity = await describeIssueActivity(event, issueDetail);
+    const issueCard = await recordIssueActivity(ctx, jiraConfig, event.issue.key, newActivity);
+    const issueTransitions = event.webhookEvent !== "jira:issue_deleted" ?
+        await getJiraDetails<jiraTypes.JiraIssueTransitions>(buildSelfUrl(event.issue.id, jiraConfig.name) + "/transitions", true, 5) :
+        {transitions: []};
+
+    // Comments and changes are replied in the thread of the card in channels that prefer threaded notifications
+    const commentReply = newActivity && ["issueComment", "issueStatus", "issueState"].includes(newActivity.check) ?
+        await prepareIssueCommentedMessage(event, issueDetail) : undefined;
+
+    const notifyChannels = _.uniqBy(channels, "channel").map(c => c.channel);
+    for (const channel of _.uniqBy(newChannels, "channel")) {
+        const notify = !!newActivity && notifyChannels.includes(channel.channel);
+        const card = buildIssueCard(event, issueDetail, jiraConfig, channelIssueActivity(issueCard.activity, channel), issueTransitions);
+        // Re-writing the same id updates the card in place, channels not subscribed to this event only refresh an existing card
+        await ctx.messageClient.addressChannels(card, channel.channel, {
+            id: issueCardMessageId(jiraConfig, event.issue.key),
+            post: notify ? undefined : "update_only",
+        });
+
+        // The card is posted first, so the reply has a thread to join
+        if (notify && commentReply && channel.threaded) {
+            await replyToIssueCard(ctx, event, jiraConfig, channel, commentReply);
         }
     }
+    logger.debug(`JIRA routeEvent: Notified ${notifyChannels.length} of ${newChannels.length} channels of ${event.issue.key}`);
 };
 
 /**
- * This function is used to build the appropriate message description and build the msgOptions to be sent with the Chat message
+ * Reply with the detail of a comment or change in the thread of a channel's card.  Changes are limited to the fields the channel
+ * is notified of.
+ */
+async function replyToIssueCard(
+    ctx: HandlerContext,
+    event: types.OnJiraIssueEvent.JiraIssue,
+    jiraConfig: JiraInstance,
+    channel: JiraPreference,
+    commentReply: slack.Attachment[],
+): Promise<void> {
+    const reply = [...commentReply, ...(await prepareStateChangeMessage(event, channel))];
+    if (reply.length > 0) {
+        await ctx.messageClient.addressChannels({attachments: reply}, channel.channel, {
+            id: `jira/issue_updated/${event.issue.key}/${event.timestamp}`,
+            thread: issueCardMessageId(jiraConfig, event.issue.key),
+        });
+    }
+}
+
+/**
+ * Build the issue card for a channel
  *
+ * @param {OnJiraIssueEvent.JiraIssue} event The event being processed
  * @param {jiraTypes.Issue} issueDetail contains all of the data from the JIRA instance about this issue
- * @param {OnJiraIssueEvent.Issue} event contains the data from the ingested JIRA event
- * @param {boolean} newEvent determines if the event that we are building a message for is replayed or new
- * @param {JiraConfig} jiraConfig
- * @returns {description: string, issueTransitions: jiraTypes.JiraIssueTransitions, msgOptions: MessageOptions}
+ * @param {JiraInstance} jiraConfig The JIRA instance this issue belongs to
+ * @param {JiraIssueActivity[]} activity The activity on the issue this channel subscribes to
+ * @param {jiraTypes.JiraIssueTransitions} issueTransitions The transitions available, offered as a status menu
+ * @returns {slack.SlackMessage}
  */
-export async function getJiraIssueDescription(
-    issueDetail: jiraTypes.Issue,
+export function buildIssueCard(
     event: types.OnJiraIssueEvent.JiraIssue,
-    newEvent: boolean,
-    jiraConfig: JiraConfig,
-): Promise<{description: string, issueTransitions: jiraTypes.JiraIssueTransitions, msgOptions: MessageOptions}> {
-    let description: string;
-    let issueTransitions: jiraTypes.JiraIssueTransitions;
-    let msgOptions: MessageOptions;
-
-    switch (event.webhookEvent) {
-        case("comment_created"):
-        case("jira:issue_updated"): {
-            issueTransitions = await getJiraDetails<jiraTypes.JiraIssueTransitions>(buildSelfUrl(event.issue.id) + "/transitions", true, 5);
-            description = `JIRA Issue updated ` + slack.url(
-                `${jiraConfig.url}/browse/${event.issue.key}`,
-                `${event.issue.key}: ${issueDetail.fields.summary}`,
-            );
-            msgOptions = {
-                id: `jira/issue_updated/${event.issue.key}/${event.timestamp}`,
-                post: newEvent ? "always" : "update_only",
-            };
-            break;
-        }
-
-        case("jira:issue_created"): {
-            issueTransitions = await getJiraDetails<jiraTypes.JiraIssueTransitions>(buildSelfUrl(event.issue.id) + "/transitions", true, 5);
-            description = `JIRA Issue created ` + slack.url(
-                `${jiraConfig.url}/browse/${event.issue.key}`,
-                `${event.issue.key}: ${issueDetail.fields.summary}`,
-            );
-            msgOptions = {
-                id: `jira/issue_created/${event.issue.key}/${event.timestamp}`,
-                post: newEvent ? "always" : "update_only",
-            };
-            break;
-        }
+    issueDetail: jiraTypes.Issue,
+    jiraConfig: JiraInstance,
+    activity: JiraIssueActivity[],
+    issueTransitions: jiraTypes.JiraIssueTransitions,
+): slack.SlackMessage {
+    const title = issueCardTitle(event, issueDetail, jiraConfig);
 
-        case("jira:issue_deleted"): {
-            description = slack.url(`${jiraConfig.url}/browse/${event.issue.key}`, `JIRA Issue ${event.issue.key} deleted`);
-            msgOptions = {
-                id: `jira/issue_deleted/${event.issue.key}/${event.timestamp}`,
-                post: newEvent ? "always" : "update_only",
-            };
-            break;
-        }
-    }
+    // Create menu spec for issue transitions
+    const transitionOptions: MenuSpecification = {
+        text: "Set Status",
+        options: issueTransitions.hasOwnProperty("transitions") && issueTransitions.transitions.length > 0 ?
+            issueTransitions.transitions.map(t => ({text: t.name, value: t.id})) : [],
+    };
 
     return {
-        description,
-        issueTransitions,
-        msgOptions,
+        attachments: [
+            {
+                pretext: title,
+                fallback: title,
+                text: activity.length > 0 ? formatIssueActivity(activity) : undefined,
+                mrkdwn_in: ["text"],
+            },
+            ...(event.webhookEvent !== "jira:issue_deleted" ? [buildIssueDetailAttachment(issueDetail)] : []),
+            {
+                fallback: `Footer`,
+                footer: buildJiraFooter(issueDetail),
+                actions: [
+                    ...(
+                        event.webhookEvent !== "jira:issue_deleted" ?
+                        [buttonForCommand({text: "Comment"}, "JiraCommentOnIssue", {issueId: event.issue.id, instance: jiraConfig.name})] : []),
+                    ...(transitionOptions.options.length > 0 ?
+                        [menuForCommand(
+                            transitionOptions,
+                            "SetIssueStatus",
+                            "transitionId",
+                            {selfUrl: `${issueDetail.self}/transitions`})] : []),
+                ],
+            },
+        ],
     };
 }
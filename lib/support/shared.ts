@@ -14,23 +14,128 @@
  * limitations under the License.
  */
 
-import { configurationValue } from "@atomist/automation-client";
-import { JiraConfig } from "../jira";
+import {
+    configurationValue,
+    logger,
+} from "@atomist/automation-client";
+import jira2slack = require("jira2slack");
+import { getJiraCacheConfig } from "./cache/config";
+import { JiraCache } from "./cache/jiraCache";
+import {
+    UnmatchedUsersCacheTag,
+    userCacheTag,
+    userEmailCacheTag,
+} from "./cache/tags";
+import {
+    AdfDocument,
+    adfToSlack,
+    isAdfDocument,
+    slackToAdf,
+} from "./helpers/adf";
+import { getJiraInstance } from "./instances";
 import { getJiraDetails } from "./jiraDataLookup";
 import * as jiraTypes from "./jiraDefs";
+import { recordJiraCacheLookup } from "./metrics";
 
-export async function convertEmailtoJiraUser(address: string): Promise<string> {
-    const jiraConfig = configurationValue<object>("sdm.jira") as JiraConfig;
-    const res = await getJiraDetails<jiraTypes.User[]>(`${jiraConfig.url}/rest/api/2/user/search?username=${address}`);
+interface JiraUserIdentity {
+    /**
+     * The key (REST v2) or account id (REST v3) of the JIRA user with the email address, unset if there isn't one
+     */
+    key?: string;
+}
+
+/**
+ * Find the JIRA user an email address belongs to.  When the cache is enabled matches are remembered for a long time, and
+ * addresses without a JIRA user for a shorter time, see JiraCacheConfig.userIdentity.
+ *
+ * JIRA Cloud (REST v3) users don't have keys or usernames, so the account id of the user is returned instead.  Use
+ * buildJiraUserField to refer to the user in a request.
+ *
+ * @param {string} address
+ * @param {string} instance The name of the JIRA instance.  Optional, defaults to the default instance
+ * @returns {string} The key (or account id) of the JIRA user, or undefined if no user has this address
+ */
+export async function convertEmailtoJiraUser(address: string, instance?: string): Promise<string> {
+    const jiraConfig = getJiraInstance(instance);
+    const enable = configurationValue<boolean>("sdm.jira.useCache", false);
+    const jiraCache = configurationValue<JiraCache>("sdm.jiraCache");
+    const hashKey = `user-identity:${jiraConfig.name}:${address.toLowerCase()}`;
+    if (enable) {
+        const cached = await jiraCache.get<JiraUserIdentity>(hashKey);
+        recordJiraCacheLookup("convertEmailtoJiraUser", cached !== undefined);
+        if (cached !== undefined) {
+            logger.debug(`JIRA convertEmailtoJiraUser => ${hashKey}: Cache hit, re-using value...`);
+            return cached.key;
+        }
+    }
+
+    // REST v3 (JIRA Cloud) no longer supports searching by username
+    const cloud = jiraConfig.apiVersion === 3;
+    const res = await getJiraDetails<jiraTypes.User[]>(
+        `${jiraConfig.apiUrl}/user/search?${cloud ? "query" : "username"}=${encodeURIComponent(address)}`);
+    const user = res.find(u => cloud ? !!u.accountId : !!u.key);
+    const key = user ? (cloud ? user.accountId : user.key) : undefined;
 
-    if (res.length > 0) {
-        return res[0].key;
-    } else {
-        return undefined;
+    if (enable) {
+        const config = getJiraCacheConfig().userIdentity;
+        await jiraCache.set<JiraUserIdentity>(
+            hashKey,
+            {key},
+            key ? config.ttl : config.negativeTtl,
+            // User events identify the user by key, which Cloud users may not have
+            [userEmailCacheTag(address), user ? userCacheTag(user.key || key) : UnmatchedUsersCacheTag],
+        );
     }
+    return key;
+}
+
+/**
+ * Refer to a JIRA user in a request, ie as the assignee or reporter of an issue
+ *
+ * @param {string} key The key (or on REST v3, the account id) of the user, as returned by convertEmailtoJiraUser
+ * @param {string} instance The name of the JIRA instance.  Optional, defaults to the default instance
+ */
+export function buildJiraUserField(key: string, instance?: string): {name: string} | {accountId: string} {
+    return getJiraInstance(instance).apiVersion === 3 ? {accountId: key} : {name: key};
+}
+
+export function buildSelfUrl(id: string, instance?: string): string {
+    return `${getJiraInstance(instance).apiUrl}/issue/${id}`;
+}
+
+/**
+ * Convert Slack markdown into the rich text format expected by the JIRA instance.  REST v3 instances expect an ADF
+ * document, v2 instances expect wiki markup.
+ *
+ * @param {string} markdown Slack markdown
+ * @param {string} instance The name of the JIRA instance.  Optional, defaults to the default instance
+ * @returns {string | AdfDocument}
+ */
+export function convertSlackToJiraText(markdown: string, instance?: string): string | AdfDocument {
+    return getJiraInstance(instance).apiVersion === 3 ? slackToAdf(markdown) : jira2slack.toJira(markdown);
 }
 
-export function buildSelfUrl(id: string): string {
-    const jiraConfig = configurationValue<JiraConfig>("sdm.jira");
-    return `${jiraConfig.url}/rest/api/2/issue/${id}`;
+/**
+ * Convert a JIRA rich text value (ADF document or wiki markup) into Slack markdown.  Some values, such as changelog entries, may
+ * contain an ADF document serialized as a string.
+ *
+ * @param {string | AdfDocument} value
+ * @returns {string}
+ */
+export function convertJiraTextToSlack(value: string | AdfDocument): string {
+    if (value === undefined || value === null) {
+        return "";
+    } else if (isAdfDocument(value)) {
+        return adfToSlack(value);
+    } else if (typeof value === "string" && value.trim().startsWith("{")) {
+        try {
+            const parsed = JSON.parse(value);
+            if (isAdfDocument(parsed)) {
+                return adfToSlack(parsed);
+            }
+        } catch {
+            // Not an ADF document, treat as wiki markup
+        }
+    }
+    return jira2slack.toSlack(value);
 }
@@ -0,0 +1,379 @@
+/*
+ * Copyright © 2019 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+    automationClientInstance,
+    ConfigurationAware,
+    configurationValue,
+    guid,
+    HandlerContext,
+    HttpMethod,
+    logger,
+} from "@atomist/automation-client";
+import {
+    AdminCommunicationContext,
+    SdmContext,
+    slackErrorMessage,
+    slackInfoMessage,
+    slackSuccessMessage,
+} from "@atomist/sdm";
+import * as slack from "@atomist/slack-messages";
+import * as os from "os";
+import * as path from "path";
+import {
+    cachedJiraUserCredentialLookup,
+    getInvokingChatUserId,
+} from "./auth/userCredentials";
+import {
+    readFile,
+    writePrivateFile,
+} from "./helpers/files";
+import { findJiraInstanceByUrl } from "./instances";
+import {
+    describeJiraError,
+    isUnprocessedJiraRequest,
+    JiraApiError,
+    JiraClient,
+} from "./jiraClient";
+
+export interface JiraQueueConfig {
+    /**
+     * Queue writes that fail because JIRA is unavailable.  Default true
+     */
+    enabled?: boolean;
+
+    /**
+     * File the queue is persisted to.  Default ~/.atomist/jira-write-queue.json
+     *
+     * Each replica of the SDM has its own queue, writes are only retried by the replica that queued them.  Use a path on
+     * persistent storage that is not shared with other replicas.
+     */
+    path?: string;
+
+    /**
+     * How often, in milliseconds, to check for queued writes that are due to be retried.  Default 30000
+     */
+    interval?: number;
+
+    /**
+     * Base delay, in milliseconds, before retrying a queued write.  Doubled on every attempt.  Default 60000
+     */
+    retryDelay?: number;
+
+    /**
+     * Maximum delay, in milliseconds, between attempts.  Default 3600000
+     */
+    maxRetryDelay?: number;
+
+    /**
+     * Number of attempts before a queued write is considered to have permanently failed.  Default 20
+     */
+    maxAttempts?: number;
+}
+
+const DefaultJiraQueueConfig: JiraQueueConfig = {
+    enabled: true,
+    path: path.join(os.homedir(), ".atomist", "jira-write-queue.json"),
+    interval: 30000,
+    retryDelay: 60000,
+    maxRetryDelay: 3600000,
+    maxAttempts: 20,
+};
+
+export function getJiraQueueConfig(): JiraQueueConfig {
+    return {
+        ...DefaultJiraQueueConfig,
+        ...configurationValue<JiraQueueConfig>("sdm.jira.queue", {}),
+    };
+}
+
+/**
+ * A write to JIRA
+ */
+export interface JiraWrite {
+    method: HttpMethod.Post | HttpMethod.Put;
+    url: string;
+    data: any;
+
+    /**
+     * Human readable description of this write, used in notifications.  ie Create JIRA issue "Broken build"
+     */
+    description: string;
+}
+
+/**
+ * A write that failed because JIRA was unavailable and is waiting to be retried
+ */
+export interface JiraQueuedWrite extends JiraWrite {
+    id: string;
+    workspaceId?: string;
+    chatUserId?: string;
+
+    /**
+     * True if the write was made with the linked JIRA credentials of chatUserId.  It is only ever retried with those credentials.
+     */
+    userCredential?: boolean;
+    attempts: number;
+    created: number;
+    nextAttempt: number;
+    lastError?: string;
+}
+
+export interface JiraWriteResult<T> {
+    /**
+     * Was the write queued because JIRA is unavailable?
+     */
+    queued: boolean;
+
+    /**
+     * The response from JIRA, when the write was not queued
+     */
+    result?: T;
+
+    /**
+     * The queued write, when the write was queued
+     */
+    item?: JiraQueuedWrite;
+}
+
+/**
+ * Contexts of the invocations that queued writes, used to notify the user once their write is processed.  These are not persisted,
+ * after a restart notifications are sent to the SDM admin channel instead.  Retries are authenticated using the workspace and chat
+ * user persisted with the write, see authContext.
+ */
+const QueuedWriteContexts = new Map<string, SdmContext>();
+
+let pendingSave: Promise<void> = Promise.resolve();
+let processing = false;
+
+/**
+ * Submit a write to JIRA.  If JIRA is unavailable (unreachable, 502, 503 or rate limited once the client has exhausted its retries)
+ * the write is persisted and retried in the background, the user that submitted it is notified in chat once it succeeds or permanently
+ * fails.  Any other failure (ie validation errors, or a timeout after which the write may have been applied) is raised immediately.
+ *
+ * @param {JiraWrite} write
+ * @param {SdmContext} ctx Passed to supply detail to getJiraAuth and to notify the user.  Where present in calling functions, should be passed in.
+ * @returns {JiraWriteResult}
+ * @throws {JiraApiError}
+ */
+export async function submitJiraWrite<T>(write: JiraWrite, ctx?: SdmContext): Promise<JiraWriteResult<T>> {
+    try {
+        return {queued: false, result: await executeJiraWrite<T>(write, ctx)};
+    } catch (e) {
+        if (!getJiraQueueConfig().enabled || !isJiraUnavailable(e)) {
+            throw e;
+        }
+
+        const config = getJiraQueueConfig();
+        const chatUserId = getInvokingChatUserId(ctx);
+        const item: JiraQueuedWrite = {
+            ...write,
+            id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+            workspaceId: ctx && ctx.context ? ctx.context.workspaceId : undefined,
+            chatUserId,
+            userCredential: !!chatUserId && !!(await cachedJiraUserCredentialLookup(ctx, findJiraInstanceByUrl(write.url).name)),
+            attempts: 1,
+            created: Date.now(),
+            nextAttempt: Date.now() + config.retryDelay,
+            lastError: e.message,
+        };
+        logger.warn(`JIRA submitJiraWrite: JIRA is unavailable, queueing write ${item.id} (${item.description}).  Error => ${e.message}`);
+
+        await updateQueue(items => [...items, item]);
+        if (ctx) {
+            QueuedWriteContexts.set(item.id, ctx);
+        }
+        return {queued: true, item};
+    }
+}
+
+/**
+ * List the writes waiting to be retried
+ *
+ * @param {string} workspaceId Optional, only return writes queued from this workspace
+ * @returns {JiraQueuedWrite[]}
+ */
+export async function listJiraWriteQueue(workspaceId?: string): Promise<JiraQueuedWrite[]> {
+    await pendingSave;
+    const items = await loadQueue();
+    return workspaceId ? items.filter(i => !i.workspaceId || i.workspaceId === workspaceId) : items;
+}
+
+/**
+ * Retry any queued writes that are due.  Writes that succeed, or fail permanently, are removed from the queue and the user that
+ * queued them is notified.
+ *
+ * @param {AdminCommunicationContext} admin Used to send notifications when the context of the original invocation is no longer available
+ */
+export async function processJiraWriteQueue(admin?: AdminCommunicationContext): Promise<void> {
+    // A slow run must not overlap the next, or writes would be submitted twice
+    if (processing) {
+        return;
+    }
+    processing = true;
+    try {
+        await pendingSave;
+        const due = (await loadQueue()).filter(i => i.nextAttempt <= Date.now());
+        if (due.length > 0) {
+            logger.debug(`JIRA processJiraWriteQueue: Retrying ${due.length} queued writes`);
+            for (const item of due) {
+                await retryJiraWrite(item, admin);
+            }
+        }
+    } finally {
+        processing = false;
+    }
+}
+
+async function retryJiraWrite(item: JiraQueuedWrite, admin?: AdminCommunicationContext): Promise<void> {
+    const config = getJiraQueueConfig();
+    const ctx = QueuedWriteContexts.get(item.id);
+    const auth = authContext(item);
+    if (item.userCredential && !(await cachedJiraUserCredentialLookup(auth, findJiraInstanceByUrl(item.url).name))) {
+        logger.error(`JIRA processJiraWriteQueue: Queued write ${item.id} (${item.description}) failed, the credentials of ${item.chatUserId} ` +
+            `are no longer linked`);
+        await updateQueue(items => items.filter(i => i.id !== item.id));
+        await notify(item, ctx, admin, queueErrorMessage(
+            `Queued JIRA Update Failed`,
+            `${item.description} will not be retried, the JIRA account it was made with is no longer linked to ${slack.user(item.chatUserId)}.`,
+            ctx,
+        ));
+        return;
+    }
+
+    let result: any;
+    try {
+        result = await executeJiraWrite<any>(item, auth);
+    } catch (e) {
+        const attempts = item.attempts + 1;
+        if (isJiraUnavailable(e) && attempts < config.maxAttempts) {
+            const delay = Math.min(config.retryDelay * Math.pow(2, attempts - 1), config.maxRetryDelay);
+            logger.warn(`JIRA processJiraWriteQueue: Queued write ${item.id} failed, retrying in ${delay}ms.  Error => ${e.message}`);
+            await updateQueue(items => items.map(i =>
+                i.id === item.id ? {...i, attempts, nextAttempt: Date.now() + delay, lastError: e.message} : i));
+        } else {
+            logger.error(`JIRA processJiraWriteQueue: Queued write ${item.id} (${item.description}) permanently failed.  Error => ${e.message}`);
+            await updateQueue(items => items.filter(i => i.id !== item.id));
+            await notify(item, ctx, admin, queueErrorMessage(
+                `Queued JIRA Update Failed`,
+                `${item.description} failed after ${attempts} attempts and will not be retried.\n${describeJiraError(e)}`,
+                ctx,
+            ));
+        }
+        return;
+    }
+
+    logger.info(`JIRA processJiraWriteQueue: Queued write ${item.id} (${item.description}) succeeded after ${item.attempts + 1} attempts`);
+    await updateQueue(items => items.filter(i => i.id !== item.id));
+    await notify(item, ctx, admin, slackSuccessMessage(
+        `Queued JIRA Update Succeeded`,
+        `${item.description} succeeded now that JIRA is available.` + describeCreated(item, result),
+    ));
+}
+
+/**
+ * Should a failed write be queued?  Only when JIRA certainly didn't process it, otherwise replaying it could apply it twice.
+ */
+function isJiraUnavailable(e: any): boolean {
+    return e instanceof JiraApiError && isUnprocessedJiraRequest(e);
+}
+
+/**
+ * Build the context a queued write is authenticated with, from the details persisted with it rather than the original invocation
+ * so the write is retried as the same JIRA user after a restart.  Writes made by the service account are retried by it even if the
+ * chat user has since linked their own credentials.
+ */
+function authContext(item: JiraQueuedWrite): SdmContext | undefined {
+    if (!item.workspaceId) {
+        return undefined;
+    }
+    const configuration = automationClientInstance().configuration;
+    const context: HandlerContext & ConfigurationAware = {
+        workspaceId: item.workspaceId,
+        correlationId: guid(),
+        graphClient: configuration.graphql.client.factory.create(item.workspaceId, configuration),
+        messageClient: undefined,
+        configuration,
+        source: item.userCredential ? {user_agent: "slack", slack: {team: {id: item.workspaceId}, user: {id: item.chatUserId}}} : undefined,
+    };
+    return {context, configuration, addressChannels: undefined, credentials: undefined, preferences: undefined};
+}
+
+async function executeJiraWrite<T>(write: JiraWrite, ctx?: SdmContext): Promise<T> {
+    const client = new JiraClient(ctx);
+    return write.method === HttpMethod.Put ? client.put<T>(write.url, write.data) : client.post<T>(write.url, write.data);
+}
+
+function describeCreated(item: JiraQueuedWrite, result: any): string {
+    if (result && result.key) {
+        const baseUrl = findJiraInstanceByUrl(item.url).url;
+        return ` Link: ${slack.url(`${baseUrl}/browse/${result.key}`, result.key)}`;
+    }
+    return "";
+}
+
+/**
+ * slackErrorMessage links to support using the invocation, which isn't available after a restart
+ */
+function queueErrorMessage(title: string, text: string, ctx: SdmContext | undefined): slack.SlackMessage {
+    return ctx ?
+        slackErrorMessage(title, text, ctx.context) :
+        slackInfoMessage(title, text, {author_icon: "https://images.atomist.com/rug/error-circle.png", color: "#BC3D33"});
+}
+
+async function notify(
+    item: JiraQueuedWrite,
+    ctx: SdmContext | undefined,
+    admin: AdminCommunicationContext | undefined,
+    message: slack.SlackMessage,
+): Promise<void> {
+    QueuedWriteContexts.delete(item.id);
+    try {
+        if (ctx) {
+            await ctx.addressChannels(message);
+        } else if (admin) {
+            await admin.addressAdmin(message);
+        }
+    } catch (e) {
+        logger.error(`JIRA processJiraWriteQueue: Failed to send notification for queued write ${item.id}.  Error => ${e}`);
+    }
+}
+
+async function loadQueue(): Promise<JiraQueuedWrite[]> {
+    try {
+        return JSON.parse(await readFile(getJiraQueueConfig().path, "utf8"));
+    } catch (e) {
+        if (e.code !== "ENOENT") {
+            logger.error(`JIRA loadQueue: Failed to read queue, treating as empty.  Error => ${e}`);
+        }
+        return [];
+    }
+}
+
+/**
+ * Apply a change to the persisted queue.  Changes are serialized so concurrent updates are not lost.  The queue holds the content
+ * of writes and the users that made them, so the file is only readable by the SDM's user.
+ */
+async function updateQueue(change: (items: JiraQueuedWrite[]) => JiraQueuedWrite[]): Promise<void> {
+    pendingSave = pendingSave.then(async () => {
+        const file = getJiraQueueConfig().path;
+        const items = change(await loadQueue());
+        await writePrivateFile(file, JSON.stringify(items, undefined, 2));
+    }).catch(e => {
+        logger.error(`JIRA updateQueue: Failed to save queue.  Error => ${e}`);
+    });
+    return pendingSave;
+}
@@ -980,6 +980,8 @@ export namespace ChatIdByEmail {
     person?: Maybe<Person>;
 
     screenName?: Maybe<string>;
+
+    userId?: Maybe<string>;
   };
 
   export type Person = {
@@ -1081,90 +1083,6 @@ export namespace GetGoalByJiraIssueId {
   };
 }
 
-export namespace GetJiraIssueByKey {
-  export type Variables = {
-    key: string;
-  };
-
-  export type Query = {
-    __typename?: "Query";
-
-    JiraIssue?: Maybe<(Maybe<JiraIssue>)[]>;
-  };
-
-  export type JiraIssue = {
-    __typename?: "JiraIssue";
-
-    timestamp?: string;
-
-    webhookEvent?: string;
-
-    issue_event_type_name?: string;
-
-    issue?: Issue;
-
-    user?: Maybe<User>;
-
-    changelog?: Maybe<Changelog>;
-
-    comment?: Maybe<Comment>;
-  };
-
-  export type Issue = {
-    __typename?: "JiraIssueDetail";
-
-    id?: string;
-
-    self?: string;
-
-    key?: string;
-  };
-
-  export type User = {
-    __typename?: "JiraIssueUser";
-
-    key?: string;
-
-    self?: string;
-  };
-
-  export type Changelog = {
-    __typename?: "JiraIssueChangelog";
-
-    id?: string;
-
-    items?: (Maybe<Items>)[];
-  };
-
-  export type Items = {
-    __typename?: "JiraIssueChangelogItem";
-
-    field?: string;
-
-    fieldtype?: string;
-
-    from?: string;
-
-    fromString?: string;
-
-    to?: string;
-
-    toString?: string;
-  };
-
-  export type Comment = {
-    __typename?: "JiraIssueComment";
-
-    self?: string;
-
-    id?: string;
-
-    created?: string;
-
-    updated?: Maybe<string>;
-  };
-}
-
 export namespace GetPersonByChatId {
   export type Variables = {
     chatId: string;
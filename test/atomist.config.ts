@@ -28,7 +28,6 @@ import {
 import { onJiraIssueEventApproval } from "../lib/event/onJiraIssueEventApproval";
 import { JiraApproval } from "../lib/goals/JiraApproval";
 import { jiraSupport } from "../lib/jira";
-import { getJiraStats } from "../lib/support/cache/manage";
 import { jiraCacheProcessor } from "../lib/support/cache/postProcessor";
 import { createBugIssueReg } from "../lib/support/commands/createBugIssue";
 import {
@@ -46,10 +45,9 @@ export function machineMaker(config: SoftwareDeliveryMachineConfiguration): Soft
     );
 
     sdm.addExtensionPacks(
-        jiraSupport(),
+        jiraSupport(undefined, undefined, {cacheCommands: true}),
     );
     sdm.addEvent(onJiraIssueEventApproval(JiraApproval));
-    sdm.addCommand(getJiraStats);
     sdm.addCommand(createBugIssueReg);
     sdm.addCommand(jiraFindAndAssignReg);
     sdm.addCommand(jiraCreateProjectBranchReg);
@@ -0,0 +1,97 @@
+/*
+ * Copyright © 2019 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { HttpMethod } from "@atomist/automation-client";
+import * as crypto from "crypto";
+import * as assert from "power-assert";
+import {
+    buildOAuthHeader,
+    buildSignatureBaseString,
+    oauthEncode,
+} from "../../../lib/support/auth/oauth";
+
+describe("oauth", () => {
+
+    describe("oauthEncode", () => {
+
+        it("encodes reserved characters per RFC 3986", () => {
+            assert(oauthEncode("Ladies + Gentlemen") === "Ladies%20%2B%20Gentlemen");
+            assert(oauthEncode("An encoded string!") === "An%20encoded%20string%21");
+            assert(oauthEncode("Dogs, Cats & Mice") === "Dogs%2C%20Cats%20%26%20Mice");
+            assert(oauthEncode("it's (*)") === "it%27s%20%28%2A%29");
+            assert(oauthEncode("-._~") === "-._~");
+            assert(oauthEncode("☃") === "%E2%98%83");
+        });
+    });
+
+    describe("buildSignatureBaseString", () => {
+
+        it("matches the example of RFC 5849 section 3.4.1.1", () => {
+            // The example's form body parameters (c2 and a3=2 q) are supplied in the query string, where they are treated the same
+            const base = buildSignatureBaseString(
+                {url: "http://example.com/request?b5=%3D%253D&a3=a&c%40=&a2=r%20b&c2&a3=2+q", method: HttpMethod.Post},
+                {
+                    oauth_consumer_key: "9djdj82h48djs9d2",
+                    oauth_token: "kkk9d7dh3k39sjv7",
+                    oauth_signature_method: "HMAC-SHA1",
+                    oauth_timestamp: "137131201",
+                    oauth_nonce: "7d8f3e4a",
+                },
+            );
+            assert(base === "POST&http%3A%2F%2Fexample.com%2Frequest&a2%3Dr%2520b%26a3%3D2%2520q%26a3%3Da%26b5%3D%253D%25253D%26c%2540%3D" +
+                "%26c2%3D%26oauth_consumer_key%3D9djdj82h48djs9d2%26oauth_nonce%3D7d8f3e4a%26oauth_signature_method%3DHMAC-SHA1" +
+                "%26oauth_timestamp%3D137131201%26oauth_token%3Dkkk9d7dh3k39sjv7");
+        });
+
+        it("leaves default ports and fragments out of the base url", () => {
+            const base = buildSignatureBaseString({url: "https://jira.example.com:443/rest/api/2/myself#me", method: HttpMethod.Get}, {});
+            assert(base === "GET&https%3A%2F%2Fjira.example.com%2Frest%2Fapi%2F2%2Fmyself&");
+        });
+    });
+
+    describe("buildOAuthHeader", () => {
+
+        it("signs the request with RSA-SHA1", () => {
+            const {privateKey, publicKey} = crypto.generateKeyPairSync("rsa", {
+                modulusLength: 1024,
+                publicKeyEncoding: {type: "spki", format: "pem"},
+                privateKeyEncoding: {type: "pkcs8", format: "pem"},
+            });
+            const request = {url: "https://jira.example.com/rest/api/2/search?jql=project%20%3D%20PROJ", method: HttpMethod.Get};
+            const header = buildOAuthHeader(
+                {consumerKey: "atomist", privateKey, accessToken: "t0k3n"}, request, "n0nc3", "1560000000");
+
+            assert(header.startsWith("OAuth "));
+            const params: Record<string, string> = {};
+            header.slice("OAuth ".length).split(", ").forEach(p => {
+                const [, k, v] = /^([a-z_]+)="(.*)"$/.exec(p);
+                params[k] = decodeURIComponent(v);
+            });
+            const {oauth_signature, ...signed} = params;
+            assert.deepStrictEqual(signed, {
+                oauth_consumer_key: "atomist",
+                oauth_nonce: "n0nc3",
+                oauth_signature_method: "RSA-SHA1",
+                oauth_timestamp: "1560000000",
+                oauth_token: "t0k3n",
+                oauth_version: "1.0",
+            });
+            assert(crypto.createVerify("RSA-SHA1")
+                .update(buildSignatureBaseString(request, signed))
+                .verify(publicKey, oauth_signature, "base64"));
+        });
+    });
+});
@@ -0,0 +1,132 @@
+/*
+ * Copyright © 2019 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as assert from "power-assert";
+import {
+    JiraFileCache,
+    JiraFileCacheOptions,
+} from "../../../lib/support/cache/jiraFileCache";
+
+describe("JiraFileCache", () => {
+
+    let dir: string;
+    let file: string;
+    let caches: JiraFileCache[];
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "jira-file-cache-"));
+        file = path.join(dir, "cache", "jira-cache.json");
+        caches = [];
+    });
+
+    afterEach(async () => {
+        // Caches are written again when the process exits, unless they have no changes
+        await Promise.all(caches.map(c => c.flush()));
+        if (fs.existsSync(path.dirname(file))) {
+            fs.readdirSync(path.dirname(file)).forEach(f => fs.unlinkSync(path.join(path.dirname(file), f)));
+            fs.rmdirSync(path.dirname(file));
+        }
+        fs.rmdirSync(dir);
+    });
+
+    const createCache = (options: JiraFileCacheOptions = {}) => {
+        const cache = new JiraFileCache({path: file, flushInterval: 3600000, ...options});
+        caches.push(cache);
+        return cache;
+    };
+    const readEntries = () => JSON.parse(fs.readFileSync(file, "utf8")).entries.map((e: any) => e.key);
+
+    it("persists entries and loads them in a new cache", async () => {
+        const cache = createCache();
+        cache.set("a", {key: "PROJ-1"}, 60, ["project:1"]);
+        cache.set("b", "forever", 0);
+        await cache.flush();
+
+        assert(fs.statSync(file).mode.toString(8).endsWith("600"));
+        const loaded = createCache();
+        assert.deepStrictEqual(loaded.get("a"), {key: "PROJ-1"});
+        assert(loaded.get("b") === "forever");
+        assert(loaded.ttl("b") === 0);
+        assert(loaded.ttl("a") > 0 && loaded.ttl("a") <= 60);
+        assert(loaded.invalidateTag("project:1") === 1);
+        assert(loaded.get("a") === undefined);
+    });
+
+    it("does not load expired entries", async () => {
+        fs.mkdirSync(path.dirname(file));
+        fs.writeFileSync(file, JSON.stringify({
+            version: 1,
+            entries: [
+                {key: "old", value: "1", expires: Date.now() - 1000, tags: []},
+                {key: "new", value: "2", expires: Date.now() + 60000, tags: []},
+            ],
+        }));
+
+        const cache = createCache();
+        assert.deepStrictEqual(cache.keys(), ["new"]);
+    });
+
+    it("starts empty when the file is unreadable", () => {
+        fs.mkdirSync(path.dirname(file));
+        fs.writeFileSync(file, "{not json");
+
+        const cache = createCache();
+        assert.deepStrictEqual(cache.keys(), []);
+    });
+
+    it("only writes the file when entries change", async () => {
+        const cache = createCache();
+        cache.set("a", 1);
+        await cache.flush();
+        fs.unlinkSync(file);
+
+        cache.get("a");
+        cache.get("missing");
+        await cache.flush();
+        assert(!fs.existsSync(file));
+
+        cache.del("a");
+        await cache.flush();
+        assert.deepStrictEqual(readEntries(), []);
+    });
+
+    it("evicts the least recently used entries beyond maxSize", async () => {
+        // Each entry is 1 byte of key and 3 bytes of value ("\"x\"")
+        const cache = createCache({maxSize: 12});
+        cache.set("a", "x");
+        cache.set("b", "x");
+        cache.set("c", "x");
+        cache.get("a");
+        cache.set("d", "x");
+
+        assert.deepStrictEqual(cache.keys(), ["c", "a", "d"]);
+        await cache.flush();
+        assert.deepStrictEqual(readEntries(), ["c", "a", "d"]);
+    });
+
+    it("measures sizes in bytes", () => {
+        const cache = createCache({maxSize: 10});
+        cache.set("é", "ü");
+        assert.deepStrictEqual(cache.getStats(), {hits: 0, misses: 0, keys: 1, ksize: 2, vsize: 4});
+
+        // Both entries are 4 characters, but 6 and 7 bytes
+        cache.set("€", "ü");
+        assert.deepStrictEqual(cache.keys(), ["€"]);
+    });
+});
@@ -0,0 +1,120 @@
+/*
+ * Copyright © 2019 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as Redis from "ioredis";
+import * as assert from "power-assert";
+import { JiraRedisCache } from "../../../lib/support/cache/jiraRedisCache";
+
+/**
+ * JiraRedisCache against a real Redis, REDIS_URL or a local Redis on the default port.  Skipped when Redis isn't running.
+ */
+describe("JiraRedisCache with Redis", () => {
+
+    let client: Redis.Redis;
+    let cache: JiraRedisCache;
+    let other: JiraRedisCache;
+
+    before(async function connect(this: Mocha.Context): Promise<void> {
+        client = new Redis(process.env.REDIS_URL || "redis://localhost:6379", {
+            lazyConnect: true,
+            connectTimeout: 1000,
+            maxRetriesPerRequest: 0,
+            retryStrategy: () => undefined,
+        });
+        // Connection errors are raised by the commands that fail
+        client.on("error", () => undefined);
+        try {
+            await client.connect();
+        } catch (e) {
+            client.disconnect();
+            client = undefined;
+            this.skip();
+        }
+    });
+
+    beforeEach(() => {
+        const run = `${process.pid}-${Date.now()}`;
+        cache = new JiraRedisCache(client, {prefix: `sdm-jira-test-${run}:`, stdTTL: 60});
+        other = new JiraRedisCache(client, {prefix: `sdm-jira-test-${run}-other:`});
+    });
+
+    afterEach(async () => {
+        if (client) {
+            await cache.flushAll();
+            await other.flushAll();
+        }
+    });
+
+    after(async () => {
+        if (client) {
+            await client.quit();
+        }
+    });
+
+    it("stores and expires values", async () => {
+        assert(await cache.set("issue", {key: "PROJ-1"}));
+        await cache.set("short", 1, 1);
+        await cache.set("forever", 2, 0);
+        assert.deepStrictEqual(await cache.get("issue"), {key: "PROJ-1"});
+        assert(await cache.ttl("issue") > 50);
+        assert(await cache.ttl("forever") === 0);
+
+        await new Promise(resolve => setTimeout(resolve, 1500));
+        assert(await cache.get("short") === undefined);
+        assert(await cache.ttl("short") === undefined);
+        assert(await cache.get("forever") === 2);
+    }).timeout(5000);
+
+    it("invalidates tagged entries", async () => {
+        await cache.set("a", 1, 10, ["project:1"]);
+        await cache.set("b", 2, 100, ["project:1"]);
+        await cache.set("c", 3, 10, ["project:2"]);
+
+        assert(await cache.invalidateTag("project:1") === 2);
+        assert(await cache.get("a") === undefined);
+        assert(await cache.get("b") === undefined);
+        assert(await cache.get("c") === 3);
+        assert(await cache.invalidateTag("project:1") === 0);
+    });
+
+    it("lists keys and reports stats of its own prefix", async () => {
+        await cache.set("issue:1", "xy", 10, ["project:1"]);
+        await cache.set("issue:2", [1, 2, 3]);
+        await cache.set("user:1", 3);
+        await other.set("issue:3", 4);
+        await cache.get("issue:1");
+        await cache.get("missing");
+
+        assert.deepStrictEqual((await cache.keys()).sort(), ["issue:1", "issue:2", "user:1"]);
+        assert.deepStrictEqual((await cache.keys("issue:")).sort(), ["issue:1", "issue:2"]);
+        // Stats are recorded in the background, a later command on the same connection runs after them
+        await client.ping();
+        assert.deepStrictEqual(await cache.getStats(), {hits: 1, misses: 1, keys: 3, ksize: 20, vsize: 4 + 7 + 1});
+
+        await cache.resetStats();
+        const stats = await cache.getStats();
+        assert(stats.hits === 0 && stats.misses === 0 && stats.keys === 3);
+    });
+
+    it("flushes only its own keys", async () => {
+        await cache.set("a", 1, 10, ["tag"]);
+        await other.set("a", 2);
+        await cache.flushAll();
+
+        assert.deepStrictEqual(await cache.keys(), []);
+        assert(await other.get("a") === 2);
+    });
+});
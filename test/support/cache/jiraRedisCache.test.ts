@@ -0,0 +1,224 @@
+/*
+ * Copyright © 2019 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as assert from "power-assert";
+import {
+    JiraRedisCache,
+    JiraRedisClient,
+    JiraRedisPipeline,
+} from "../../../lib/support/cache/jiraRedisCache";
+
+/**
+ * Just enough of Redis for JiraRedisCache, expiry is recorded but never happens
+ */
+class FakeRedisClient implements JiraRedisClient {
+    public readonly strings: Map<string, string> = new Map<string, string>();
+    public readonly hashes: Map<string, {[field: string]: string}> = new Map<string, {[field: string]: string}>();
+    public readonly sets: Map<string, Set<string>> = new Map<string, Set<string>>();
+    public readonly expiries: Map<string, number> = new Map<string, number>();
+    public pipelines: number = 0;
+
+    public async get(key: string): Promise<string | null> {
+        return this.strings.get(key);
+    }
+
+    public async set(key: string, value: string, ...args: any[]): Promise<any> {
+        this.strings.set(key, value);
+        if (args[0] === "EX") {
+            this.expiries.set(key, args[1]);
+        } else {
+            this.expiries.delete(key);
+        }
+        return "OK";
+    }
+
+    public async del(...keys: string[]): Promise<number> {
+        return keys.filter(k => [this.strings, this.hashes, this.sets].some(m => m.delete(k))).length;
+    }
+
+    public async scan(cursor: string | number, ...args: any[]): Promise<[string, string[]]> {
+        const pattern = new RegExp(`^${(args[1] as string).replace(/\\(.)|([.+^${}()|])|(\*)/g,
+            (m, escaped, special, star) => escaped ? `\\${escaped}` : special ? `\\${special}` : ".*")}$`);
+        return ["0", [...this.strings.keys(), ...this.hashes.keys(), ...this.sets.keys()].filter(k => pattern.test(k))];
+    }
+
+    public async hincrby(key: string, field: string, increment: number): Promise<number> {
+        const hash = this.hashes.get(key) || {};
+        hash[field] = `${Number(hash[field] || 0) + increment}`;
+        this.hashes.set(key, hash);
+        return Number(hash[field]);
+    }
+
+    public async hgetall(key: string): Promise<{[field: string]: string}> {
+        return this.hashes.get(key) || {};
+    }
+
+    public async sadd(key: string, ...members: string[]): Promise<number> {
+        const set = this.sets.get(key) || new Set<string>();
+        members.forEach(m => set.add(m));
+        this.sets.set(key, set);
+        return members.length;
+    }
+
+    public async smembers(key: string): Promise<string[]> {
+        return [...(this.sets.get(key) || [])];
+    }
+
+    public async ttl(key: string): Promise<number> {
+        if (!this.strings.has(key) && !this.sets.has(key)) {
+            return -2;
+        }
+        return this.expiries.has(key) ? this.expiries.get(key) : -1;
+    }
+
+    public async expire(key: string, seconds: number): Promise<number> {
+        this.expiries.set(key, seconds);
+        return 1;
+    }
+
+    public async persist(key: string): Promise<number> {
+        return this.expiries.delete(key) ? 1 : 0;
+    }
+
+    public pipeline(): JiraRedisPipeline {
+        this.pipelines++;
+        const keys: string[] = [];
+        const pipeline: JiraRedisPipeline = {
+            strlen: key => {
+                keys.push(key);
+                return pipeline;
+            },
+            exec: async () => keys.map<[Error | null, any]>(k => [undefined, this.strings.has(k) ? this.strings.get(k).length : 0]),
+        };
+        return pipeline;
+    }
+}
+
+/**
+ * A Redis that is unavailable, every command fails
+ */
+function unavailableRedisClient(): JiraRedisClient {
+    const fail = async () => {
+        throw new Error("connect ECONNREFUSED");
+    };
+    return {
+        get: fail, set: fail, del: fail, scan: fail, hincrby: fail, hgetall: fail, sadd: fail, smembers: fail, ttl: fail, expire: fail,
+        persist: fail,
+        pipeline: () => {
+            throw new Error("connect ECONNREFUSED");
+        },
+    };
+}
+
+describe("JiraRedisCache", () => {
+
+    let client: FakeRedisClient;
+    let cache: JiraRedisCache;
+
+    beforeEach(() => {
+        client = new FakeRedisClient();
+        cache = new JiraRedisCache(client, {prefix: "test:", stdTTL: 60});
+    });
+
+    it("stores values as JSON under the prefix", async () => {
+        assert(await cache.set("issue", {key: "PROJ-1"}));
+        assert.deepStrictEqual(await cache.get("issue"), {key: "PROJ-1"});
+        assert(client.strings.get("test:issue") === `{"key":"PROJ-1"}`);
+        assert(await cache.ttl("issue") === 60);
+        assert(await cache.get("missing") === undefined);
+    });
+
+    it("does not store undefined", async () => {
+        assert(!(await cache.set("nothing", undefined)));
+        assert(client.strings.size === 0);
+    });
+
+    it("stores entries with a ttl of 0 without expiry", async () => {
+        await cache.set("forever", 1, 0);
+        assert(!client.expiries.has("test:forever"));
+        assert(await cache.ttl("forever") === 0);
+        assert(await cache.ttl("missing") === undefined);
+    });
+
+    it("invalidates tagged entries", async () => {
+        await cache.set("a", 1, 10, ["project:1"]);
+        await cache.set("b", 2, 100, ["project:1"]);
+        await cache.set("c", 3, 10, ["project:2"]);
+        assert(client.expiries.get("test:__tag__:project:1") === 100);
+
+        assert(await cache.invalidateTag("project:1") === 2);
+        assert(await cache.get("a") === undefined);
+        assert(await cache.get("b") === undefined);
+        assert(await cache.get("c") === 3);
+        assert(!client.sets.has("test:__tag__:project:1"));
+    });
+
+    it("lists keys without the prefix, stats or tags", async () => {
+        await cache.set("issue:1", 1, 10, ["project:1"]);
+        await cache.set("issue:2", 2);
+        await cache.set("user:1", 3);
+        await cache.get("issue:1");
+        await client.set("other:issue:3", "4");
+
+        assert.deepStrictEqual((await cache.keys()).sort(), ["issue:1", "issue:2", "user:1"]);
+        assert.deepStrictEqual((await cache.keys("issue:")).sort(), ["issue:1", "issue:2"]);
+    });
+
+    it("escapes the prefix when scanning", async () => {
+        const starred = new JiraRedisCache(client, {prefix: "a*"});
+        await starred.set("x", 1);
+        await client.set("abc", "2");
+        assert.deepStrictEqual(await starred.keys(), ["x"]);
+    });
+
+    it("reports stats with value sizes from a pipeline", async () => {
+        await cache.set("a", "xy");
+        await cache.set("bb", [1, 2, 3]);
+        await cache.get("a");
+        await cache.get("missing");
+        // Stats are recorded in the background
+        await new Promise(setImmediate);
+
+        assert.deepStrictEqual(await cache.getStats(), {hits: 1, misses: 1, keys: 2, ksize: 3, vsize: 4 + 7});
+        assert(client.pipelines === 1);
+
+        await cache.resetStats();
+        const stats = await cache.getStats();
+        assert(stats.hits === 0 && stats.misses === 0 && stats.keys === 2);
+    });
+
+    it("flushes only its own keys", async () => {
+        await cache.set("a", 1, 10, ["tag"]);
+        await cache.get("a");
+        await client.set("other", "1");
+        await cache.flushAll();
+
+        assert.deepStrictEqual([...client.strings.keys(), ...client.hashes.keys(), ...client.sets.keys()], ["other"]);
+    });
+
+    it("treats an unavailable Redis as a miss", async () => {
+        const unavailable = new JiraRedisCache(unavailableRedisClient());
+        assert(await unavailable.get("a") === undefined);
+        assert(!(await unavailable.set("a", 1, 10, ["tag"])));
+        assert(await unavailable.del("a") === 0);
+        assert(await unavailable.invalidateTag("tag") === 0);
+        assert.deepStrictEqual(await unavailable.keys(), []);
+        assert(await unavailable.ttl("a") === undefined);
+        assert.deepStrictEqual(await unavailable.getStats(), {hits: 0, misses: 0, keys: 0, ksize: 0, vsize: 0});
+        await unavailable.resetStats();
+        await unavailable.flushAll();
+    });
+});
@@ -0,0 +1,106 @@
+/*
+ * Copyright © 2019 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as assert from "power-assert";
+import * as url from "url";
+import {
+    searchAllIssues,
+    searchIssuesIterator,
+} from "../../../lib/support/commands/shared";
+
+describe("commands/shared", () => {
+
+    let client: any;
+    let requests: string[];
+    let total: number;
+
+    /**
+     * Serve pages of a search with total results, capping maxResults at 2 as JIRA may do
+     */
+    const exchange = async (u: string) => {
+        requests.push(u);
+        const query = url.parse(u, true).query;
+        const startAt = +query.startAt;
+        const end = Math.min(total, startAt + Math.min(+query.maxResults, 2));
+        const issues = [];
+        for (let i = startAt; i < end; i++) {
+            issues.push({key: `PROJ-${i + 1}`});
+        }
+        return {status: 200, headers: {}, body: {startAt, maxResults: 2, total, issues}};
+    };
+
+    before(() => {
+        client = (global as any).__runningAutomationClient;
+        (global as any).__runningAutomationClient = {
+            configuration: {
+                http: {client: {factory: {create: () => ({exchange})}}},
+                sdm: {
+                    jira: {url: "https://jira.example.com"},
+                    jiraAuthenticator: async () => ({Authorization: "Basic dGVzdA=="}),
+                    jiraCache: {get: async (): Promise<any> => undefined},
+                },
+            },
+        };
+    });
+
+    beforeEach(() => {
+        requests = [];
+        total = 5;
+    });
+
+    after(() => {
+        (global as any).__runningAutomationClient = client;
+    });
+
+    describe("searchIssuesIterator", () => {
+
+        it("requests each page from where the last ended", async () => {
+            const issues = await searchAllIssues(" project = PROJ\n  AND labels = \"a b\"", {fields: ["summary", "status", "summary"]});
+            assert.deepStrictEqual(issues.map(i => i.key), ["PROJ-1", "PROJ-2", "PROJ-3", "PROJ-4", "PROJ-5"]);
+            const search = "https://jira.example.com/rest/api/2/search?jql=project%20%3D%20PROJ%20AND%20labels%20%3D%20%22a%20b%22";
+            assert.deepStrictEqual(requests, [
+                `${search}&startAt=0&maxResults=50&fields=status%2Csummary`,
+                `${search}&startAt=2&maxResults=50&fields=status%2Csummary`,
+                `${search}&startAt=4&maxResults=50&fields=status%2Csummary`,
+            ]);
+        });
+
+        it("keeps whitespace in quoted strings", async () => {
+            await searchAllIssues(`summary ~ "a  b"  AND text ~ "say \\"c  d\\""`);
+            assert(decodeURIComponent(/jql=([^&]*)/.exec(requests[0])[1]) === `summary ~ "a  b" AND text ~ "say \\"c  d\\""`);
+        });
+
+        it("stops requesting pages at the limit", async () => {
+            const issues = await searchAllIssues("project = PROJ", {limit: 3, pageSize: 2});
+            assert.deepStrictEqual(issues.map(i => i.key), ["PROJ-1", "PROJ-2", "PROJ-3"]);
+            assert(requests.length === 2);
+        });
+
+        it("only requests pages as issues are consumed", async () => {
+            const iterator = searchIssuesIterator("project = PROJ");
+            assert((await iterator.next()).value.key === "PROJ-1");
+            assert(requests.length === 1);
+            await iterator.return();
+            assert(requests.length === 1);
+        });
+
+        it("stops when there are no results", async () => {
+            total = 0;
+            assert.deepStrictEqual(await searchAllIssues("project = NONE"), []);
+            assert(requests.length === 1);
+        });
+    });
+});
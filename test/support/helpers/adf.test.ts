@@ -0,0 +1,154 @@
+/*
+ * Copyright © 2019 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as assert from "power-assert";
+import {
+    AdfDocument,
+    adfToSlack,
+    adfToText,
+    slackToAdf,
+    textToAdf,
+} from "../../../lib/support/helpers/adf";
+
+describe("adf", () => {
+
+    describe("slackToAdf", () => {
+
+        it("converts inline formatting", () => {
+            assert.deepStrictEqual(slackToAdf("A *bold* _new_ ~old~ `code` <https://example.com|link>"), {
+                type: "doc",
+                version: 1,
+                content: [{
+                    type: "paragraph",
+                    content: [
+                        {type: "text", text: "A "},
+                        {type: "text", text: "bold", marks: [{type: "strong"}]},
+                        {type: "text", text: " "},
+                        {type: "text", text: "new", marks: [{type: "em"}]},
+                        {type: "text", text: " "},
+                        {type: "text", text: "old", marks: [{type: "strike"}]},
+                        {type: "text", text: " "},
+                        {type: "text", text: "code", marks: [{type: "code"}]},
+                        {type: "text", text: " "},
+                        {type: "text", text: "link", marks: [{type: "link", attrs: {href: "https://example.com"}}]},
+                    ],
+                }],
+            });
+        });
+
+        it("converts lists, quotes and code blocks", () => {
+            const doc = slackToAdf("Steps:\n- one\n- two\n\n> it &lt;broke&gt;\n```\nif (a < b) {\n```");
+            assert.deepStrictEqual(doc.content.map(n => n.type), ["paragraph", "bulletList", "blockquote", "codeBlock"]);
+            assert(doc.content[1].content.length === 2);
+            assert(adfToText(doc.content[2]) === "it <broke>");
+            assert(adfToText(doc.content[3]) === "if (a < b) {");
+        });
+
+        it("does not treat unbalanced markers as formatting", () => {
+            assert.deepStrictEqual(slackToAdf("2 * 3 = 6, file_name"), textToAdf("2 * 3 = 6, file_name"));
+        });
+    });
+
+    describe("round trips", () => {
+
+        [
+            "A *bold* _new_ ~old~ `code` <https://example.com|link>",
+            "Line one\nline two\n\nSecond paragraph",
+            "• one\n• *two*",
+            "1. first\n2. second",
+            "> quoted\n> twice",
+            "```\nif (a < b && c) {\n    return;\n}\n```",
+            "Escaped a &lt; b &amp;&amp; c &gt; d",
+            "<https://example.com/browse/PROJ-1|*PROJ-1*> is done",
+        ].forEach(markdown => {
+            it(`keeps ${JSON.stringify(markdown)}`, () => {
+                assert(adfToSlack(slackToAdf(markdown)) === markdown);
+            });
+        });
+
+        it("keeps documents from JIRA", () => {
+            const doc: AdfDocument = {
+                type: "doc",
+                version: 1,
+                content: [
+                    {
+                        type: "paragraph",
+                        content: [
+                            {type: "text", text: "Fails when "},
+                            {type: "text", text: "x > 1", marks: [{type: "code"}]},
+                            {type: "hardBreak"},
+                            {type: "text", text: "see", marks: [{type: "strong"}]},
+                            {type: "text", text: " "},
+                            {type: "text", text: "the docs", marks: [{type: "link", attrs: {href: "https://example.com/docs"}}]},
+                        ],
+                    },
+                    {
+                        type: "bulletList",
+                        content: [
+                            {type: "listItem", content: [{type: "paragraph", content: [{type: "text", text: "A & B"}]}]},
+                            {type: "listItem", content: [{type: "paragraph", content: [{type: "text", text: "C", marks: [{type: "em"}]}]}]},
+                        ],
+                    },
+                    {type: "codeBlock", content: [{type: "text", text: "a <b>\n  c"}]},
+                ],
+            };
+            assert.deepStrictEqual(slackToAdf(adfToSlack(doc)), doc);
+        });
+    });
+
+    describe("adfToSlack", () => {
+
+        it("keeps whitespace outside formatting, so Slack recognises it", () => {
+            const doc = {type: "doc", content: [{type: "paragraph", content: [{type: "text", text: " bold ", marks: [{type: "strong"}]}]}]};
+            assert(adfToSlack(doc) === "*bold*");
+            assert(adfToSlack({type: "paragraph", content: [{type: "text", text: "a"}, doc.content[0].content[0], {type: "text", text: "c"}]}) ===
+                "a *bold* c");
+        });
+
+        it("converts nodes Slack has no equivalent for", () => {
+            const doc = {
+                type: "doc",
+                content: [
+                    {type: "heading", attrs: {level: 2}, content: [{type: "text", text: "Title"}]},
+                    {type: "paragraph", content: [
+                        {type: "mention", attrs: {id: "1", text: "@Jane"}},
+                        {type: "text", text: " "},
+                        {type: "status", attrs: {text: "DONE"}},
+                        {type: "text", text: " "},
+                        {type: "inlineCard", attrs: {url: "https://example.com"}},
+                    ]},
+                    {type: "rule"},
+                    {type: "mediaSingle", content: [{type: "media", attrs: {id: "1"}}]},
+                ],
+            };
+            assert(adfToSlack(doc) === "*Title*\n\n@Jane [DONE] <https://example.com>\n\n———");
+        });
+    });
+
+    describe("textToAdf", () => {
+
+        it("does not interpret markup", () => {
+            assert.deepStrictEqual(textToAdf("*not bold*\nnext\n\nlast"), {
+                type: "doc",
+                version: 1,
+                content: [
+                    {type: "paragraph", content: [{type: "text", text: "*not bold*"}, {type: "hardBreak"}, {type: "text", text: "next"}]},
+                    {type: "paragraph", content: [{type: "text", text: "last"}]},
+                ],
+            });
+        });
+    });
+});
@@ -0,0 +1,86 @@
+/*
+ * Copyright © 2019 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as assert from "power-assert";
+import {
+    makeDirectory,
+    readFile,
+    writePrivateFile,
+} from "../../../lib/support/helpers/files";
+
+describe("files", () => {
+
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "sdm-pack-jira-"));
+    });
+
+    afterEach(() => {
+        const remove = (p: string) => {
+            if (fs.statSync(p).isDirectory()) {
+                fs.readdirSync(p).forEach(f => remove(path.join(p, f)));
+                fs.rmdirSync(p);
+            } else {
+                fs.unlinkSync(p);
+            }
+        };
+        remove(dir);
+    });
+
+    describe("makeDirectory", () => {
+
+        it("creates missing parents", async () => {
+            const nested = path.join(dir, "a", "b", "c");
+            await makeDirectory(nested);
+            assert(fs.statSync(nested).isDirectory());
+        });
+
+        it("leaves an existing directory", async () => {
+            fs.writeFileSync(path.join(dir, "f"), "");
+            await makeDirectory(dir);
+            assert.deepStrictEqual(fs.readdirSync(dir), ["f"]);
+        });
+
+        it("creates the same directory concurrently", async () => {
+            const nested = path.join(dir, "a", "b");
+            await Promise.all([makeDirectory(nested), makeDirectory(nested), makeDirectory(path.join(nested, "c"))]);
+            assert(fs.statSync(path.join(nested, "c")).isDirectory());
+        });
+    });
+
+    describe("writePrivateFile", () => {
+
+        it("writes a file only its owner can read", async () => {
+            const file = path.join(dir, "a", "queue.json");
+            await writePrivateFile(file, "[]");
+            await writePrivateFile(file, "[1]");
+            assert(await readFile(file, "utf8") === "[1]");
+            assert(fs.statSync(file).mode.toString(8).endsWith("600"));
+            assert.deepStrictEqual(fs.readdirSync(path.dirname(file)), ["queue.json"]);
+        });
+
+        it("replaces a file written with a wider mode", async () => {
+            const file = path.join(dir, "queue.json");
+            fs.writeFileSync(file, "[]", {mode: 0o644});
+            await writePrivateFile(file, "[1]");
+            assert(fs.statSync(file).mode.toString(8).endsWith("600"));
+        });
+    });
+});
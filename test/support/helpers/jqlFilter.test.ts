@@ -0,0 +1,112 @@
+/*
+ * Copyright © 2019 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as assert from "power-assert";
+import {
+    evaluateJqlFilter,
+    parseJqlFilter,
+} from "../../../lib/support/helpers/jqlFilter";
+import * as jiraTypes from "../../../lib/support/jiraDefs";
+
+function issue(fields: Partial<jiraTypes.Fields>): jiraTypes.Issue {
+    return {key: "PROJ-1", fields} as any;
+}
+
+const bug = issue({
+    issuetype: {id: "10004", name: "Bug"} as any,
+    priority: {id: "2", name: "Critical"} as any,
+    components: [{id: "10100", name: "Web UI"}, {id: "10101", name: "API"}] as any,
+    labels: ["frontend"],
+    status: {id: "1", name: "Open"} as any,
+});
+
+describe("jqlFilter", () => {
+
+    describe("parseJqlFilter", () => {
+
+        it("parses clauses joined by AND", () => {
+            assert.deepStrictEqual(parseJqlFilter("priority in (Blocker, Critical) AND labels = frontend and Status != Done"), [
+                {field: "priority", negate: false, values: ["Blocker", "Critical"]},
+                {field: "labels", negate: false, values: ["frontend"]},
+                {field: "status", negate: true, values: ["Done"]},
+            ]);
+        });
+
+        it("parses quoted values", () => {
+            assert.deepStrictEqual(parseJqlFilter(`component in ("Web UI", 'API') AND labels = "say \\"hi\\""`), [
+                {field: "component", negate: false, values: ["Web UI", "API"]},
+                {field: "labels", negate: false, values: [`say "hi"`]},
+            ]);
+            assert.deepStrictEqual(parseJqlFilter(`labels = "and"`), [{field: "labels", negate: false, values: ["and"]}]);
+        });
+
+        it("parses not in", () => {
+            assert.deepStrictEqual(parseJqlFilter("type NOT IN (Epic,Story)"), [
+                {field: "type", negate: true, values: ["Epic", "Story"]},
+            ]);
+        });
+
+        it("leaves anything else to JIRA", () => {
+            [
+                "",
+                "assignee = currentUser()",
+                "priority = Blocker OR priority = Critical",
+                "labels is EMPTY",
+                "labels = EMPTY",
+                "labels ~ front",
+                "priority in (Blocker",
+                "priority in ()",
+                "priority = Blocker ORDER BY created",
+                "(priority = Blocker)",
+                `"priority" = Blocker`,
+                "project = PROJ AND",
+            ].forEach(jql => assert(parseJqlFilter(jql) === undefined, jql));
+        });
+    });
+
+    describe("evaluateJqlFilter", () => {
+
+        const matches = (jql: string, i: jiraTypes.Issue = bug) => evaluateJqlFilter(parseJqlFilter(jql), i);
+
+        it("matches names and ids without regard to case", () => {
+            assert(matches("priority = critical"));
+            assert(matches("issuetype = 10004"));
+            assert(matches(`component = "web ui"`));
+            assert(matches("component = 10101"));
+            assert(!matches("component = 10102"));
+        });
+
+        it("requires every clause to match", () => {
+            assert(matches("priority in (Blocker, Critical) AND labels = frontend"));
+            assert(!matches("priority in (Blocker, Critical) AND labels = backend"));
+        });
+
+        it("negates != and not in", () => {
+            assert(matches("status != Done"));
+            assert(!matches("status != open"));
+            assert(matches("component not in (Database)"));
+            assert(!matches("component not in (Database, API)"));
+        });
+
+        it("never matches a field with no value", () => {
+            const unlabelled = issue({...bug.fields, labels: [], resolution: undefined});
+            assert(!matches("labels = frontend", unlabelled));
+            assert(!matches("labels != frontend", unlabelled));
+            assert(!matches("labels not in (backend)", unlabelled));
+            assert(!matches("resolution != Fixed", unlabelled));
+        });
+    });
+});
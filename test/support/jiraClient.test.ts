@@ -0,0 +1,153 @@
+/*
+ * Copyright © 2019 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { HttpMethod } from "@atomist/automation-client";
+import * as assert from "power-assert";
+import {
+    isUnprocessedJiraRequest,
+    JiraApiError,
+    JiraClient,
+} from "../../lib/support/jiraClient";
+
+describe("jiraClient", () => {
+
+    const url = "https://jira.example.com/rest/api/2/issue/10000";
+
+    let client: any;
+    let timeout: (fn: () => void, ms: number) => any;
+    let failures: any[];
+    let attempts: number;
+    let delays: number[];
+
+    const httpError = (status: number, headers: {[name: string]: string} = {}) => ({response: {status, headers, data: {}}});
+    const networkError = (code: string) => Object.assign(new Error(code), {code});
+
+    before(() => {
+        client = (global as any).__runningAutomationClient;
+        (global as any).__runningAutomationClient = {
+            configuration: {
+                http: {
+                    client: {
+                        factory: {
+                            create: () => ({
+                                exchange: async () => {
+                                    attempts++;
+                                    if (failures.length > 0) {
+                                        throw failures.shift();
+                                    }
+                                    return {status: 200, headers: {}, body: {id: "10000"}};
+                                },
+                            }),
+                        },
+                    },
+                },
+                sdm: {
+                    jira: {url: "https://jira.example.com"},
+                    jiraAuthenticator: async () => ({Authorization: "Basic dGVzdA=="}),
+                },
+            },
+        };
+        // Record the back-off instead of waiting for it
+        timeout = global.setTimeout;
+        (global as any).setTimeout = (fn: () => void, ms: number) => {
+            delays.push(ms);
+            return timeout(fn, 0);
+        };
+    });
+
+    beforeEach(() => {
+        attempts = 0;
+        delays = [];
+    });
+
+    after(() => {
+        (global as any).__runningAutomationClient = client;
+        (global as any).setTimeout = timeout;
+    });
+
+    const request = async (method: HttpMethod, ...errors: any[]): Promise<JiraApiError | undefined> => {
+        failures = errors;
+        try {
+            await new JiraClient(undefined, {retries: 3, retryDelay: 100, maxRetryAfter: 5000}).request(method, url, {});
+            return undefined;
+        } catch (e) {
+            return e;
+        }
+    };
+
+    describe("isUnprocessedJiraRequest", () => {
+
+        it("is true only when JIRA certainly didn't process the request", () => {
+            const error = (status: number, code?: string) => new JiraApiError(HttpMethod.Put, url, status, [], {}, undefined, code);
+            assert(isUnprocessedJiraRequest(error(429)));
+            assert(isUnprocessedJiraRequest(error(502)));
+            assert(isUnprocessedJiraRequest(error(503)));
+            assert(isUnprocessedJiraRequest(error(undefined, "ECONNREFUSED")));
+            assert(!isUnprocessedJiraRequest(error(500)));
+            assert(!isUnprocessedJiraRequest(error(504)));
+            assert(!isUnprocessedJiraRequest(error(400)));
+            assert(!isUnprocessedJiraRequest(error(undefined, "ECONNABORTED")));
+            assert(!isUnprocessedJiraRequest(error(undefined, "ECONNRESET")));
+            assert(!isUnprocessedJiraRequest(error(undefined)));
+        });
+    });
+
+    describe("request", () => {
+
+        it("retries reads with exponential back-off", async () => {
+            assert(await request(HttpMethod.Get, httpError(500), networkError("ECONNABORTED"), httpError(504)) === undefined);
+            assert(attempts === 4);
+            assert.deepStrictEqual(delays, [100, 200, 400]);
+        });
+
+        it("gives up after the configured retries", async () => {
+            const e = await request(HttpMethod.Get, httpError(503), httpError(503), httpError(503), httpError(503), httpError(503));
+            assert(e instanceof JiraApiError);
+            assert(e.status === 503);
+            assert(attempts === 4);
+        });
+
+        it("does not retry client errors", async () => {
+            const e = await request(HttpMethod.Get, httpError(404));
+            assert(e.status === 404);
+            assert(attempts === 1);
+        });
+
+        [HttpMethod.Post, HttpMethod.Put, HttpMethod.Delete].forEach(method => {
+
+            it(`does not retry a ${method} JIRA may have processed`, async () => {
+                for (const error of [httpError(500), httpError(504), networkError("ECONNABORTED"), networkError("ECONNRESET")]) {
+                    attempts = 0;
+                    assert(await request(method, error) instanceof JiraApiError);
+                    assert(attempts === 1);
+                }
+                assert.deepStrictEqual(delays, []);
+            });
+
+            it(`retries a ${method} JIRA did not process`, async () => {
+                assert(await request(method, httpError(502), httpError(503), networkError("ECONNREFUSED")) === undefined);
+                assert(attempts === 4);
+                assert.deepStrictEqual(delays, [100, 200, 400]);
+            });
+        });
+
+        it("honours Retry-After, up to maxRetryAfter", async () => {
+            assert(await request(HttpMethod.Put, httpError(429, {"retry-after": "2"}), httpError(429, {"retry-after": "60"}),
+                httpError(429)) === undefined);
+            assert.deepStrictEqual(delays, [2000, 5000, 400]);
+        });
+    });
+});
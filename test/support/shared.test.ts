@@ -0,0 +1,81 @@
+/*
+ * Copyright © 2019 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as assert from "power-assert";
+import {
+    isAdfDocument,
+    slackToAdf,
+} from "../../lib/support/helpers/adf";
+import {
+    convertJiraTextToSlack,
+    convertSlackToJiraText,
+} from "../../lib/support/shared";
+
+describe("shared", () => {
+
+    let client: any;
+
+    before(() => {
+        client = (global as any).__runningAutomationClient;
+        (global as any).__runningAutomationClient = {
+            configuration: {
+                sdm: {
+                    jira: {
+                        instances: {
+                            cloud: {url: "https://example.atlassian.net", apiVersion: 3},
+                            server: {url: "https://jira.example.com"},
+                        },
+                    },
+                },
+            },
+        };
+    });
+
+    after(() => {
+        (global as any).__runningAutomationClient = client;
+    });
+
+    describe("convertSlackToJiraText", () => {
+
+        it("converts to ADF for REST v3 instances", () => {
+            const markdown = "Fails with *every* `input`\n• see <https://example.com|the docs>";
+            assert.deepStrictEqual(convertSlackToJiraText(markdown, "cloud"), slackToAdf(markdown));
+        });
+
+        it("converts to wiki markup for REST v2 instances", () => {
+            assert(typeof convertSlackToJiraText("Fails with *every* input", "server") === "string");
+        });
+    });
+
+    describe("convertJiraTextToSlack", () => {
+
+        const markdown = "Fails with *every* `input`\n\n• one\n• <https://example.com|two>\n\n> a &lt; b";
+
+        it("round trips Slack markdown through ADF", () => {
+            const adf = convertSlackToJiraText(markdown, "cloud");
+            assert(isAdfDocument(adf));
+            assert(convertJiraTextToSlack(adf) === markdown);
+        });
+
+        it("converts ADF serialized as a string, as in changelog entries", () => {
+            assert(convertJiraTextToSlack(JSON.stringify(slackToAdf(markdown))) === markdown);
+        });
+
+        it("converts nothing to nothing", () => {
+            assert(convertJiraTextToSlack(undefined) === "");
+        });
+    });
+});